@@ -2,50 +2,29 @@
  * Helper functions to use generated documentation in Storybook stories
  */
 
-export interface PropInfo {
-  name: string;
-  type: string;
-  defaultValue?: string;
-  optional: boolean;
-  description?: string;
-  inherited?: boolean;
-  inheritedFrom?: string;
-}
+// Types come from the generator instead of a local copy, so they cannot drift from the output.
+// When this file is copied into Storybook, point the import at the doc generator's src/types.
+import type { ComponentDoc, PropInfo } from '../src/types';
 
-export interface MethodInfo {
-  name: string;
-  visibility: 'public' | 'private' | 'protected';
-  returnType: string;
-  parameters: Array<{
-    name: string;
-    type: string;
-    optional: boolean;
-  }>;
-  description?: string;
-}
+export type { ComponentDoc, PropInfo, MethodInfo, EventInfo, StyleInfo } from '../src/types';
 
-export interface EventInfo {
-  name: string;
-  type: string;
-  parameters?: string;
-  description?: string;
-}
-
-export interface StyleInfo {
-  className: string;
-  description?: string;
-}
+/**
+ * Output schema version these helpers are written for (see component-doc.schema.json)
+ */
+export const SUPPORTED_SCHEMA_VERSION = '1.0';
 
-export interface ComponentDoc {
-  componentName: string;
-  componentPath: string;
-  category: string;
-  props: PropInfo[];
-  methods: MethodInfo[];
-  events: EventInfo[];
-  styles: StyleInfo[];
-  baseClass?: string;
-  description?: string;
+/**
+ * Warn when a generated doc was written with a different output format
+ */
+export function checkSchemaVersion(docs: ComponentDoc & { schemaVersion?: string }): boolean {
+  if (docs.schemaVersion !== SUPPORTED_SCHEMA_VERSION) {
+    console.warn(
+      `${docs.componentName}: generated with schema version ${docs.schemaVersion ?? '(none)'}, ` +
+      `helpers support ${SUPPORTED_SCHEMA_VERSION}; run the generator's validate command`
+    );
+    return false;
+  }
+  return true;
 }
 
 /**
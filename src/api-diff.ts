@@ -0,0 +1,325 @@
+/**
+ * Compares the component API of two runtime versions
+ */
+
+import * as fs from 'fs';
+import { DocumentationGenerator } from './doc-generator.js';
+import { GeneratorConfig } from './config.js';
+import { ApiChange, ApiDiff, BreakingChangeAllowance, ComponentDoc, MethodInfo, ParameterInfo, PropInfo } from './types.js';
+
+/**
+ * Load the docs of one side of a comparison: a saved all-components.json,
+ * or a library (folder or tarball) that is extracted on the fly
+ * @param workers - Worker threads for extracting a library
+ */
+export async function loadComponentDocs(
+  source: string,
+  config: Partial<GeneratorConfig> = {},
+  workers: number = 1
+): Promise<ComponentDoc[]> {
+  if (source.endsWith('.json')) {
+    const parsed = JSON.parse(fs.readFileSync(source, 'utf-8'));
+    return Array.isArray(parsed) ? parsed : [parsed];
+  }
+
+  return new DocumentationGenerator(source, config).generateAllDocsParallel(workers);
+}
+
+export class ApiDiffer {
+  /**
+   * Compare two sets of component docs
+   */
+  static compare(before: ComponentDoc[], after: ComponentDoc[], from: string, to: string): ApiDiff {
+    const changes: ApiChange[] = [];
+    const beforeDocs = this.flatten(before);
+    const afterDocs = this.flatten(after);
+
+    for (const name of beforeDocs.keys()) {
+      if (!afterDocs.has(name)) {
+        changes.push({ component: name, element: 'component', name, change: 'removed', breaking: true });
+      }
+    }
+
+    for (const [name, doc] of afterDocs) {
+      const previous = beforeDocs.get(name);
+      if (!previous) {
+        changes.push({ component: name, element: 'component', name, change: 'added', breaking: false });
+      } else {
+        changes.push(...this.compareComponent(name, previous, doc));
+      }
+    }
+
+    return { from, to, changes };
+  }
+
+  /**
+   * Index docs by name, including child components as 'parent > child'
+   */
+  private static flatten(docs: ComponentDoc[], parent?: string, index = new Map<string, ComponentDoc>()): Map<string, ComponentDoc> {
+    for (const doc of docs) {
+      const name = parent ? `${parent} > ${doc.componentName}` : doc.componentName;
+      index.set(name, doc);
+      if (doc.children) {
+        this.flatten(doc.children, name, index);
+      }
+    }
+    return index;
+  }
+
+  private static compareComponent(component: string, before: ComponentDoc, after: ComponentDoc): ApiChange[] {
+    return [
+      ...this.compareItems(component, 'prop', before.props, after.props, p => p.name, (a, b) => [
+        ['type', ...this.propTypes(a, b)],
+        ['defaultValue', a.defaultValue, b.defaultValue],
+        ['optional', String(a.optional), String(b.optional)],
+      ]),
+      ...this.compareItems(component, 'method', before.methods, after.methods, m => m.name, (a, b) => [
+        ['parameters', this.formatParameters(a.parameters), this.formatParameters(b.parameters)],
+        ['returnType', a.returnType, b.returnType],
+        ['static', String(!!a.static), String(!!b.static)],
+        ['access', this.methodAccess(a), this.methodAccess(b)],
+      ]),
+      ...this.compareItems(component, 'event', before.events, after.events, e => e.name, (a, b) => [
+        ['parameters', a.parameters, b.parameters],
+      ]),
+      ...this.compareItems(component, 'styleClass', before.styles, after.styles, s => s.className, () => []),
+    ];
+  }
+
+  /**
+   * Diff two lists keyed by name; `fields` lists [field, before, after] values to compare
+   */
+  private static compareItems<T>(
+    component: string,
+    element: ApiChange['element'],
+    before: T[],
+    after: T[],
+    getName: (item: T) => string,
+    fields: (before: T, after: T) => Array<[string, string | undefined, string | undefined]>
+  ): ApiChange[] {
+    const changes: ApiChange[] = [];
+    const beforeByName = new Map(before.map(item => [getName(item), item]));
+    const afterByName = new Map(after.map(item => [getName(item), item]));
+
+    for (const name of beforeByName.keys()) {
+      if (!afterByName.has(name)) {
+        changes.push({ component, element, name, change: 'removed', breaking: true });
+      }
+    }
+
+    for (const [name, item] of afterByName) {
+      const previous = beforeByName.get(name);
+      if (!previous) {
+        changes.push({ component, element, name, change: 'added', breaking: false });
+        continue;
+      }
+
+      for (const [field, beforeValue, afterValue] of fields(previous, item)) {
+        const unchanged = field === 'parameters'
+          ? this.isSameParameters(beforeValue, afterValue)
+          : beforeValue === afterValue;
+        if (!unchanged) {
+          changes.push({
+            component, element, name, change: 'changed', field, before: beforeValue, after: afterValue,
+            breaking: this.isBreaking(element, field, beforeValue, afterValue),
+          });
+        }
+      }
+    }
+
+    return changes;
+  }
+
+  /**
+   * Classify a changed field: narrowed types, props becoming required, changed signatures
+   * and lost accessors break existing usages; widening, new optional parameters and
+   * default changes do not
+   */
+  private static isBreaking(element: ApiChange['element'], field: string, before?: string, after?: string): boolean {
+    switch (field) {
+      case 'type':
+        return !this.isWidened(before ?? 'any', after ?? 'any');
+      case 'optional':
+        return before === 'true' && after === 'false';
+      case 'defaultValue':
+        return false;
+      case 'parameters':
+        // Callbacks may ignore extra arguments; method callers can omit new optional ones
+        return !this.isParameterExtension(before ?? '()', after ?? '()', element === 'method');
+      case 'access':
+        return before === 'readwrite' || !after?.includes(before ?? '');
+      default:
+        return true;
+    }
+  }
+
+  /**
+   * Whether every member of the old union type is still accepted by the new one
+   */
+  private static isWidened(before: string, after: string): boolean {
+    const afterMembers = new Set(this.splitTopLevel(after, '|'));
+    if (afterMembers.has('any') || afterMembers.has('unknown')) {
+      return true;
+    }
+    return this.splitTopLevel(before, '|').every(member => afterMembers.has(member));
+  }
+
+  /**
+   * Whether the new parameter list only appends parameters to the old one
+   * @param appendedMustBeOptional - Required new parameters break callers (but not callbacks)
+   */
+  private static isParameterExtension(before: string, after: string, appendedMustBeOptional: boolean): boolean {
+    const beforeParams = this.parameterTypes(before);
+    const afterParams = this.parameterTypes(after);
+
+    if (beforeParams.some((param, i) => param !== afterParams[i])) {
+      return false;
+    }
+    return !appendedMustBeOptional ||
+      afterParams.slice(beforeParams.length).every(param => param.startsWith('?') || param.startsWith('...'));
+  }
+
+  /**
+   * Parameter lists are equal when each parameter's type and optionality match (names are ignored)
+   */
+  private static isSameParameters(before?: string, after?: string): boolean {
+    if (before === undefined || after === undefined) {
+      return before === after;
+    }
+    return this.parameterTypes(before).join(', ') === this.parameterTypes(after).join(', ');
+  }
+
+  /**
+   * Parameter list without names, e.g. '(e: any, x?: T)' -> [': any', '?: T'];
+   * invoke-site names (arg0, args) and renames are not API changes
+   */
+  private static parameterTypes(parameters: string): string[] {
+    const list = parameters.startsWith('(') && parameters.endsWith(')') ? parameters.slice(1, -1) : parameters;
+
+    return this.splitTopLevel(list, ',').map(param => {
+      const [name, ...type] = this.splitTopLevel(param, ':');
+      const rest = name.startsWith('...') ? '...' : '';
+      const optional = name.endsWith('?') || /=/.test(name) ? '?' : '';
+      return `${rest}${optional}: ${type.join(': ') || 'any'}`;
+    });
+  }
+
+  /**
+   * Split on a separator outside of brackets and string literals, trimming the parts
+   */
+  private static splitTopLevel(text: string, separator: string): string[] {
+    const parts: string[] = [];
+    let depth = 0;
+    let quote: string | null = null;
+    let current = '';
+
+    for (const char of text) {
+      if (quote) {
+        if (char === quote) quote = null;
+      } else if (char === '"' || char === "'" || char === '`') {
+        quote = char;
+      } else if ('([{<'.includes(char)) {
+        depth++;
+      } else if (')]}>'.includes(char) && !(char === '>' && current.endsWith('='))) {
+        depth--;
+      } else if (char === separator && depth === 0) {
+        parts.push(current.trim());
+        current = '';
+        continue;
+      }
+      current += char;
+    }
+
+    if (current.trim()) {
+      parts.push(current.trim());
+    }
+    return parts;
+  }
+
+  /**
+   * Breaking changes not covered by the allow-list
+   */
+  static findUnacknowledged(diff: ApiDiff, allowList: BreakingChangeAllowance[]): ApiChange[] {
+    return diff.changes.filter(change => change.breaking && !allowList.some(allowed =>
+      allowed.component === change.component &&
+      allowed.element === change.element &&
+      allowed.name === change.name &&
+      (allowed.field === undefined || allowed.field === change.field)
+    ));
+  }
+
+  /**
+   * Prefer the checker-resolved types when both sides have them; mixing a resolved and a
+   * declared type would report equivalent types as changed
+   */
+  private static propTypes(before: PropInfo, after: PropInfo): [string, string] {
+    return before.resolvedType && after.resolvedType
+      ? [before.resolvedType, after.resolvedType]
+      : [before.type, after.type];
+  }
+
+  private static formatParameters(parameters: ParameterInfo[]): string {
+    return `(${parameters.map(p => `${p.name}${p.optional ? '?' : ''}: ${p.type}`).join(', ')})`;
+  }
+
+  private static methodAccess(method: MethodInfo): string | undefined {
+    return method.kind === 'accessor' ? method.access : undefined;
+  }
+
+  /**
+   * Readable report, one table per changed component
+   */
+  static toMarkdown(diff: ApiDiff): string {
+    const lines: string[] = [
+      '# Component API Changes',
+      '',
+      `Comparing \`${diff.from}\` → \`${diff.to}\``,
+      '',
+    ];
+
+    if (diff.changes.length === 0) {
+      lines.push('No API changes.');
+      return lines.join('\n') + '\n';
+    }
+
+    const count = (change: ApiChange['change']) => diff.changes.filter(c => c.change === change).length;
+    const breaking = diff.changes.filter(c => c.breaking).length;
+    lines.push(
+      `**${diff.changes.length} changes** (${breaking} breaking): ${count('added')} added, ${count('removed')} removed, ${count('changed')} changed`,
+      ''
+    );
+
+    const byComponent = new Map<string, ApiChange[]>();
+    for (const change of diff.changes) {
+      byComponent.set(change.component, [...(byComponent.get(change.component) ?? []), change]);
+    }
+
+    for (const [component, changes] of [...byComponent].sort(([a], [b]) => a.localeCompare(b))) {
+      lines.push(`## ${component}`, '');
+
+      const componentChange = changes.find(c => c.element === 'component');
+      if (componentChange) {
+        lines.push(`Component ${componentChange.change}.${componentChange.breaking ? ' ⚠️ **Breaking**' : ''}`, '');
+        continue;
+      }
+
+      lines.push('| Change | Kind | Name | Before | After | Breaking |', '|--------|------|------|--------|-------|----------|');
+      for (const change of changes) {
+        const what = change.field ? `${change.change} (${change.field})` : change.change;
+        lines.push(
+          `| ${what} | ${change.element} | \`${change.name}\` | ${this.cell(change.before)} | ${this.cell(change.after)} | ${change.breaking ? '⚠️ yes' : 'no'} |`
+        );
+      }
+      lines.push('');
+    }
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Escape a value for a markdown table cell
+   */
+  private static cell(value: string | undefined): string {
+    return value === undefined ? '' : `\`${value.replace(/\|/g, '\\|').replace(/\n/g, ' ')}\``;
+  }
+}
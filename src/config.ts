@@ -3,10 +3,45 @@
  */
 
 import dotenv from "dotenv";
+import { InputBackendKind } from "./source-backend.js";
+import { PropInfo } from "./types.js";
 
 // Load environment variables from .env file
 dotenv.config();
 
+/**
+ * Deprecations by API name; `true` deprecates without a message
+ */
+export type DeprecationOverrides = {
+  [name: string]: true | { message?: string; replacement?: string };
+};
+
+/**
+ * Object form of a componentAliases entry: the source component's API, adjusted for the alias
+ */
+export interface ComponentAlias {
+  /** Component whose props, methods, events and styles are reused */
+  source: string;
+  description?: string;
+  /** Source props that are fixed or meaningless for the alias */
+  hideProps?: string[];
+  /** Props only the alias has */
+  addProps?: PropInfo[];
+  /** Per-prop default and description overrides */
+  overrideProps?: {
+    [propName: string]: { defaultValue?: string; description?: string };
+  };
+  /** Storybook folder for the generated markdown (default: Wm + PascalCase alias name) */
+  storybookFolder?: string;
+}
+
+/**
+ * Normalize a componentAliases entry to its object form
+ */
+export function resolveAlias(entry: string | ComponentAlias): ComponentAlias {
+  return typeof entry === "string" ? { source: entry } : entry;
+}
+
 export interface GeneratorConfig {
   /**
    * Components to include in documentation generation (whitelist)
@@ -14,20 +49,24 @@ export interface GeneratorConfig {
   includeComponents: string[];
 
   /**
-   * Child components mapping: Parent -> { ChildName: RelativePath }
+   * Child component overrides: Parent -> { ChildName: RelativePath | false }
+   * Children are discovered from the runtime (sub-folders with their own Props/component,
+   * and undocumented sibling widgets the parent imports); entries here override a discovered
+   * path, add a child discovery misses, or drop one with false.
    */
   childComponents: {
     [parentName: string]: {
-      [childName: string]: string;
+      [childName: string]: string | false;
     };
   };
 
   /**
    * Component aliases: maps a component name to use props from another component
-   * Useful for components like selectlocale that reuse select's props
+   * Useful for components like selectlocale that reuse select's props.
+   * A plain string names the source component; the object form can also hide, add and override props.
    */
   componentAliases: {
-    [componentName: string]: string; // componentName -> uses props from this component
+    [componentName: string]: string | ComponentAlias;
   };
 
   /**
@@ -40,6 +79,19 @@ export interface GeneratorConfig {
    */
   excludeComponents: string[];
 
+  /**
+   * Where component sources are read from:
+   * 'sourcemap' = published package (.js.map with sourcesContent),
+   * 'typescript' = runtime source checkout (.ts/.tsx)
+   */
+  input: InputBackendKind;
+
+  /**
+   * Resolve prop types with the TypeScript type checker (aliases, enums, imported types)
+   * and enumerate allowed values for literal unions. Slower: builds a program over the whole runtime.
+   */
+  resolveTypes: boolean;
+
   /**
    * Documentation content filtering
    */
@@ -59,6 +111,11 @@ export interface GeneratorConfig {
      */
     excludeMethods: string[];
 
+    /**
+     * Inherited methods to exclude (base class plumbing)
+     */
+    excludeInheritedMethods: string[];
+
     /**
      * Style classes to exclude
      */
@@ -72,6 +129,17 @@ export interface GeneratorConfig {
         excludeProps?: string[];
         excludeMethods?: string[];
         excludeStyleClasses?: string[];
+
+        /**
+         * Mark APIs as deprecated (merged over @deprecated JSDoc tags)
+         * e.g. deprecated: { props: { icon: { replacement: 'iconclass' } } }
+         */
+        deprecated?: {
+          props?: DeprecationOverrides;
+          methods?: DeprecationOverrides;
+          events?: DeprecationOverrides;
+          styleClasses?: DeprecationOverrides;
+        };
       };
     };
   };
@@ -238,7 +306,10 @@ export const DEFAULT_CONFIG: GeneratorConfig = {
 
   // Component aliases: use props from another component
   componentAliases: {
-    'selectlocale': 'select', // selectlocale uses select's props
+    'selectlocale': {
+      source: 'select', // selectlocale uses select's props
+      storybookFolder: 'WmSelectLocale',
+    },
   },
 
   excludeCategories: [
@@ -254,6 +325,10 @@ export const DEFAULT_CONFIG: GeneratorConfig = {
     // Deprecated by includeComponents, keeping for reference or mixed usage if needed
   ],
 
+  input: 'sourcemap',
+
+  resolveTypes: false,
+
   // Documentation content filtering
   documentation: {
     // Common props that clutter documentation
@@ -284,6 +359,11 @@ export const DEFAULT_CONFIG: GeneratorConfig = {
       "componentDidUpdate", // React lifecycle
     ],
 
+    // Base class methods that are runtime plumbing rather than widget API
+    excludeInheritedMethods: [
+      "invokeEventCallback", // Called by the runtime to fire events
+    ],
+
     // Style classes that are internal
     excludeStyleClasses: [],
 
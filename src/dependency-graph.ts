@@ -0,0 +1,139 @@
+/**
+ * Component dependency graph: component -> runtime modules -> other widgets, plus children
+ */
+
+import * as path from 'path';
+import { ComponentDoc, DependencyEdge, DependencyGraph, DependencyNode } from './types.js';
+
+export class DependencyGraphBuilder {
+  /**
+   * Build the graph from component docs, following module imports transitively
+   * @param resolveImports - Imports of a module id (e.g. DocumentationGenerator.getModuleImports)
+   */
+  static build(docs: ComponentDoc[], libraryPath: string, resolveImports: (moduleId: string) => string[]): DependencyGraph {
+    const nodes = new Map<string, DependencyNode>();
+    const edges: DependencyEdge[] = [];
+    const edgeKeys = new Set<string>();
+
+    // A module inside a component's folder stands for that widget (aliases share their source's folder)
+    const componentByDir = new Map<string, string>();
+    const collect = (doc: ComponentDoc) => {
+      nodes.set(doc.componentName, { id: doc.componentName, kind: 'component', category: doc.category });
+      if (!doc.aliasOf) {
+        componentByDir.set(this.toModuleId(libraryPath, doc.componentPath), doc.componentName);
+      }
+      doc.children?.forEach(collect);
+    };
+    docs.forEach(collect);
+
+    const toNodeId = (moduleId: string) => componentByDir.get(path.posix.dirname(moduleId)) ?? moduleId;
+    const addEdge = (from: string, to: string, kind: DependencyEdge['kind']) => {
+      const key = `${from}\u0000${to}\u0000${kind}`;
+      if (from !== to && !edgeKeys.has(key)) {
+        edgeKeys.add(key);
+        edges.push({ from, to, kind });
+      }
+    };
+
+    const visited = new Set<string>();
+    const visitModule = (moduleId: string) => {
+      const nodeId = toNodeId(moduleId);
+      if (!nodes.has(nodeId)) {
+        nodes.set(nodeId, { id: nodeId, kind: 'module' });
+      }
+
+      // Widgets are expanded through their own docs; only plain modules are followed here
+      if (visited.has(moduleId) || nodes.get(nodeId)?.kind === 'component') {
+        return nodeId;
+      }
+      visited.add(moduleId);
+
+      for (const imported of resolveImports(moduleId)) {
+        addEdge(nodeId, visitModule(imported), 'imports');
+      }
+      return nodeId;
+    };
+
+    const link = (doc: ComponentDoc) => {
+      // An alias depends on its source component rather than repeating the source's imports
+      if (doc.aliasOf) {
+        addEdge(doc.componentName, doc.aliasOf, 'alias');
+        return;
+      }
+      doc.dependencies?.forEach(moduleId => addEdge(doc.componentName, visitModule(moduleId), 'imports'));
+      doc.children?.forEach(child => {
+        addEdge(doc.componentName, child.componentName, 'child');
+        link(child);
+      });
+    };
+    docs.forEach(link);
+
+    return { nodes: [...nodes.values()], edges };
+  }
+
+  /**
+   * Everything that depends on a node, directly or transitively (e.g. widgets affected by a core module)
+   */
+  static findDependents(graph: DependencyGraph, id: string): string[] {
+    const dependents = new Set<string>();
+    const queue = [id];
+
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+      for (const edge of graph.edges) {
+        if (edge.to === current && !dependents.has(edge.from)) {
+          dependents.add(edge.from);
+          queue.push(edge.from);
+        }
+      }
+    }
+
+    return [...dependents];
+  }
+
+  static toMermaid(graph: DependencyGraph): string {
+    const lines = ['graph LR'];
+
+    for (const node of graph.nodes) {
+      const label = node.id.replace(/"/g, "'");
+      lines.push(node.kind === 'component'
+        ? `  ${this.toIdentifier(node.id)}["${label}"]`
+        : `  ${this.toIdentifier(node.id)}(["${label}"])`);
+    }
+
+    for (const edge of graph.edges) {
+      const arrow = edge.kind === 'imports' ? '-->' : `-. ${edge.kind} .->`;
+      lines.push(`  ${this.toIdentifier(edge.from)} ${arrow} ${this.toIdentifier(edge.to)}`);
+    }
+
+    return lines.join('\n') + '\n';
+  }
+
+  static toDot(graph: DependencyGraph): string {
+    const lines = ['digraph components {', '  rankdir=LR;'];
+
+    for (const node of graph.nodes) {
+      const shape = node.kind === 'component' ? 'box' : 'ellipse';
+      lines.push(`  ${JSON.stringify(node.id)} [shape=${shape}];`);
+    }
+
+    for (const edge of graph.edges) {
+      const style = edge.kind === 'imports' ? '' : ` [style=dashed, label="${edge.kind}"]`;
+      lines.push(`  ${JSON.stringify(edge.from)} -> ${JSON.stringify(edge.to)}${style};`);
+    }
+
+    lines.push('}');
+    return lines.join('\n') + '\n';
+  }
+
+  /**
+   * Mermaid node ids may not contain '/', '.' or '-'
+   */
+  private static toIdentifier(id: string): string {
+    return id.replace(/[^A-Za-z0-9_]/g, '_');
+  }
+
+  private static toModuleId(libraryPath: string, modulePath: string): string {
+    return path.relative(libraryPath, modulePath).split(path.sep).join('/');
+  }
+}
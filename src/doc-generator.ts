@@ -4,37 +4,193 @@
 
 import * as fs from 'fs';
 import * as path from 'path';
-import { SourceExtractor } from './source-extractor.js';
+import { SourceBackend, createSourceBackend, extractComponentSources, listModules } from './source-backend.js';
+import { LibraryFileSystem, openLibrary } from './library-fs.js';
 import { TypeScriptParser } from './ts-parser.js';
-import { ComponentDoc, PropInfo, EventInfo, StyleInfo, MethodInfo } from './types.js';
-import { GeneratorConfig, DEFAULT_CONFIG } from './config.js';
+import { TypeResolver } from './type-resolver.js';
+import { StyleValue, ThemeDefault } from './style-evaluator.js';
+import { ComponentDoc, PropInfo, EventInfo, StyleInfo, MethodInfo, TypeDoc, DeprecationInfo, ComponentCoverage, CoverageReport, ComponentLocation } from './types.js';
+import { GeneratorConfig, DEFAULT_CONFIG, DeprecationOverrides, resolveAlias } from './config.js';
+import { SCHEMA_FILE_NAME, SCHEMA_VERSION } from './output-schema.js';
+import { GenerationCache } from './generation-cache.js';
+import { ExtractionPool, ExtractionResult } from './extraction-pool.js';
+
+const REACT_BASE_CLASSES = ['React.Component', 'React.PureComponent', 'Component', 'PureComponent'];
 
 export class DocumentationGenerator {
   private libraryPath: string;
   private basePropsCache: PropInfo[] | null = null;
+  private themeDefaultsCache: Map<string, ThemeDefault> | null = null;
+  private themeVariablesPath: string | null = null;
+  private inheritedPropsCache = new Map<string, { props: PropInfo[]; dependencies: string[] }>();
+  private inheritedMethodsCache = new Map<string, { methods: MethodInfo[]; dependencies: string[] }>();
+  private parentModuleCache = new Map<string, string | null>();
+  /** Components whose children are being generated (guards against circular child components) */
+  private componentsInProgress = new Set<string>();
+  private typeResolver: TypeResolver | null = null;
   private config: GeneratorConfig;
+  private fileSystem: LibraryFileSystem;
+  private backend: SourceBackend;
+  private cache: GenerationCache | null = null;
+  /** Sources read for the doc being generated (module paths, 'dir/' or 'dir/**') */
+  private dependencies: Set<string> | null = null;
+  private dependencyHashes = new Map<string, string | null>();
 
+  /**
+   * @param libraryPath - Runtime package folder, or an npm pack tarball (.tgz) read in memory
+   */
   constructor(libraryPath: string, config: Partial<GeneratorConfig> = {}) {
     this.libraryPath = libraryPath;
     this.config = { ...DEFAULT_CONFIG, ...config };
+    this.fileSystem = openLibrary(libraryPath);
+    this.backend = createSourceBackend(this.config.input, this.fileSystem);
+  }
+
+  /**
+   * Reuse unchanged component docs from a persistent cache (generateAllDocs / generateAllDocsParallel only)
+   */
+  setCache(cache: GenerationCache): void {
+    this.cache = cache;
+  }
+
+  /**
+   * Hash of the library and the settings that affect extraction, for keying the generation cache
+   * (a different library generated into the same output directory must not reuse cached docs)
+   */
+  getConfigHash(): string {
+    const { llm, ...extraction } = this.config;
+    return GenerationCache.hash(JSON.stringify({ libraryPath: path.resolve(this.libraryPath), extraction }));
+  }
+
+  /**
+   * Read the original TypeScript of a module (path without extension) through the input backend
+   */
+  private readSource(modulePath: string): string | null {
+    this.dependencies?.add(modulePath);
+    return this.backend.readModule(modulePath)?.content ?? null;
+  }
+
+  /**
+   * Run a computation, collecting the sources it reads (also into any enclosing collection)
+   */
+  private collectDependencies<T>(compute: () => T): { result: T; dependencies: string[] } {
+    const outer = this.dependencies;
+    const collected = new Set<string>();
+    this.dependencies = collected;
+
+    try {
+      return { result: compute(), dependencies: [...collected] };
+    } finally {
+      this.dependencies = outer;
+      collected.forEach(dependency => outer?.add(dependency));
+    }
+  }
+
+  /**
+   * Current content hash of a dependency: a module, a directory's modules ('dir/'),
+   * or every module below a directory ('dir/**'). Memoized for the run.
+   */
+  private hashDependency(dependency: string): string | null {
+    if (this.dependencyHashes.has(dependency)) {
+      return this.dependencyHashes.get(dependency) ?? null;
+    }
+
+    let hash: string | null = null;
+    if (dependency.endsWith('/') || dependency.endsWith('/**')) {
+      const recursive = dependency.endsWith('/**');
+      const dir = dependency.slice(0, recursive ? -3 : -1);
+
+      if (this.fileSystem.exists(dir)) {
+        const parts = listModules(this.backend, dir).sort()
+          .map(moduleName => `${moduleName}:${this.hashDependency(path.join(dir, moduleName))}`);
+
+        // Sub-folder names count too: a new one may be a newly discovered child component
+        const subdirs = this.fileSystem.readDir(dir)
+          .filter(entry => entry.isDirectory() && !entry.name.startsWith('.') && entry.name !== 'node_modules')
+          .map(entry => entry.name)
+          .sort();
+        parts.push(...subdirs.map(name =>
+          recursive ? `${name}/:${this.hashDependency(path.join(dir, name) + '/**')}` : `${name}/`
+        ));
+        hash = GenerationCache.hash(parts.join('\n'));
+      }
+    } else {
+      const content = this.backend.readModule(dependency)?.content;
+      hash = content === undefined ? null : GenerationCache.hash(content);
+    }
+
+    this.dependencyHashes.set(dependency, hash);
+    return hash;
+  }
+
+  /**
+   * Generate a doc, or reuse the cached one if none of the sources it was built from changed
+   */
+  private generateCached(key: string, generate: () => ComponentDoc | null): ComponentDoc | null {
+    if (!this.cache) {
+      return generate();
+    }
+
+    const cached = this.cache.getDoc(key, dependency => this.hashDependency(dependency));
+    if (cached) {
+      return cached;
+    }
+
+    const { result: doc, dependencies } = this.collectDependencies(generate);
+    if (doc) {
+      this.cache.setDoc(key, doc, Object.fromEntries(
+        dependencies.map(dependency => [dependency, this.hashDependency(dependency)])
+      ));
+    }
+    return doc;
+  }
+
+  /**
+   * Fill in checker-resolved types and allowed values (only when resolveTypes is enabled)
+   */
+  private applyResolvedTypes(props: PropInfo[], modulePath: string, className: string): PropInfo[] {
+    if (!this.config.resolveTypes) {
+      return props;
+    }
+
+    // Resolved types may come from any module in the library
+    this.dependencies?.add(`${this.libraryPath}/**`);
+
+    if (!this.typeResolver) {
+      console.log('Building type-checker program over runtime sources...');
+      this.typeResolver = TypeResolver.fromBackend(this.libraryPath, this.backend);
+    }
+
+    const resolved = this.typeResolver.resolveProps(modulePath, className);
+    return props.map(prop => {
+      const info = resolved.get(prop.name);
+      if (!info) return prop;
+
+      return {
+        ...prop,
+        resolvedType: info.type,
+        allowedValues: info.allowedValues,
+      };
+    });
   }
 
   /**
    * Get and cache BaseProps properties
    */
   private getBaseProps(): PropInfo[] {
+    const baseComponentPath = path.join(this.libraryPath, 'core', 'base.component');
     if (this.basePropsCache) {
+      this.dependencies?.add(baseComponentPath);
       return this.basePropsCache;
     }
 
     try {
-      const baseComponentPath = path.join(this.libraryPath, 'core', 'base.component.js.map');
-      const baseSource = SourceExtractor.extractSourceContent(baseComponentPath);
+      const baseSource = this.readSource(baseComponentPath);
 
       if (baseSource) {
-        const propsInfo = TypeScriptParser.extractProps(baseSource);
+        const propsInfo = TypeScriptParser.extractProps(baseSource, 'BaseProps');
         if (propsInfo && propsInfo.className === 'BaseProps') {
-          this.basePropsCache = propsInfo.props;
+          this.basePropsCache = this.applyResolvedTypes(propsInfo.props, baseComponentPath, propsInfo.className);
           return this.basePropsCache;
         }
       }
@@ -46,9 +202,87 @@ export class DocumentationGenerator {
   }
 
   /**
-   * Get inherited props from a base class - dynamically resolves ANY parent class
+   * Get and cache default theme variable values (styles/theme.variables)
+   */
+  private getThemeDefaults(): Map<string, ThemeDefault> {
+    if (this.themeDefaultsCache) {
+      if (this.themeVariablesPath) this.dependencies?.add(this.themeVariablesPath);
+      return this.themeDefaultsCache;
+    }
+
+    this.themeDefaultsCache = new Map();
+    const themeVariablesPath = this.searchForModule(this.libraryPath, 'theme.variables');
+    this.themeVariablesPath = themeVariablesPath;
+    if (themeVariablesPath) {
+      const source = this.readSource(themeVariablesPath);
+      if (source) {
+        this.themeDefaultsCache = TypeScriptParser.extractThemeVariables(source);
+      }
+    } else {
+      console.warn('Could not find theme.variables source; theme defaults will not be resolved');
+    }
+
+    return this.themeDefaultsCache;
+  }
+
+  /**
+   * Only object-valued styles are meaningful as StyleInfo.properties
+   */
+  private asStyleProperties(value: StyleValue | undefined): Record<string, StyleValue> | undefined {
+    if (typeof value !== 'object' || value === null || Array.isArray(value) || 'expression' in value) {
+      return undefined;
+    }
+    return Object.keys(value).length > 0 ? value as Record<string, StyleValue> : undefined;
+  }
+
+  /**
+   * Merge inherited props into the component's own, deduplicating by name.
+   * Props are ordered most-derived first, so the first declaration wins and records
+   * which parent it overrides along with that parent's type and default.
+   */
+  private mergeInheritedProps(ownProps: PropInfo[], inheritedProps: PropInfo[]): PropInfo[] {
+    const merged = new Map<string, PropInfo>();
+
+    for (const prop of [...ownProps, ...inheritedProps]) {
+      const existing = merged.get(prop.name);
+
+      if (!existing) {
+        merged.set(prop.name, { ...prop });
+      } else if (!existing.overrides) {
+        existing.overrides = prop.inheritedFrom;
+        existing.parentType = prop.type;
+        existing.parentDefaultValue = prop.defaultValue;
+      }
+
+      // Redeclarations rarely repeat the JSDoc; fall back to the parent's description
+      if (existing && !existing.description) {
+        existing.description = prop.description;
+      }
+    }
+
+    return Array.from(merged.values());
+  }
+
+  /**
+   * Get inherited props from a base class - dynamically resolves ANY parent class.
+   * Parent chains are shared by many components, so each is extracted once per generator.
    */
   private getInheritedProps(baseClassName: string): PropInfo[] {
+    const cached = this.inheritedPropsCache.get(baseClassName);
+    if (cached) {
+      cached.dependencies.forEach(dependency => this.dependencies?.add(dependency));
+      return cached.props;
+    }
+
+    const { result: props, dependencies } = this.collectDependencies(() => this.extractInheritedProps(baseClassName));
+    this.inheritedPropsCache.set(baseClassName, { props, dependencies });
+    return props;
+  }
+
+  /**
+   * Extract the props of a parent Props class and its ancestors (uncached)
+   */
+  private extractInheritedProps(baseClassName: string): PropInfo[] {
     const inheritedProps: PropInfo[] = [];
 
     // Handle BaseProps (special case - use cached props)
@@ -69,18 +303,18 @@ export class DocumentationGenerator {
     }
 
     try {
-      const source = SourceExtractor.extractSourceContent(parentPropsPath);
+      const source = this.readSource(parentPropsPath);
       // console.log(`Debug: Source length for ${baseClassName}: ${source?.length}`);
 
       if (source) {
-        const propsInfo = TypeScriptParser.extractProps(source);
+        const propsInfo = TypeScriptParser.extractProps(source, baseClassName);
         if (propsInfo) {
           console.log(`Debug: Extracted ${propsInfo.props.length} props for ${baseClassName}. Base: ${propsInfo.baseClass}`);
           // propsInfo.props.forEach(p => console.log(`  - ${p.name}`));
 
           // Add parent's own props
           inheritedProps.push(
-            ...propsInfo.props.map(prop => ({
+            ...this.applyResolvedTypes(propsInfo.props, parentPropsPath, propsInfo.className).map(prop => ({
               ...prop,
               inherited: true,
               inheritedFrom: baseClassName,
@@ -101,14 +335,84 @@ export class DocumentationGenerator {
   }
 
   /**
-   * Find the props file for a parent class by searching the library
-   * Handles BaseInputProps, BaseChartComponentProps, etc.
+   * Get public methods inherited from a base component class - walks the whole extends chain
+   */
+  private getInheritedMethods(baseClassName: string): MethodInfo[] {
+    // React's own base classes are not part of the widget API
+    if (REACT_BASE_CLASSES.includes(baseClassName)) {
+      return [];
+    }
+
+    const cached = this.inheritedMethodsCache.get(baseClassName);
+    if (cached) {
+      cached.dependencies.forEach(dependency => this.dependencies?.add(dependency));
+      return cached.methods;
+    }
+
+    const { result: methods, dependencies } = this.collectDependencies(() => this.extractInheritedMethods(baseClassName));
+    this.inheritedMethodsCache.set(baseClassName, { methods, dependencies });
+    return methods;
+  }
+
+  /**
+   * Extract the methods of a base component class and its ancestors (uncached)
+   */
+  private extractInheritedMethods(baseClassName: string): MethodInfo[] {
+    const inheritedMethods: MethodInfo[] = [];
+    const parentComponentPath = this.findParentPropsFile(baseClassName, '.component');
+
+    if (!parentComponentPath) {
+      console.warn(`Could not find component file for parent class: ${baseClassName}`);
+      return inheritedMethods;
+    }
+
+    try {
+      const source = this.readSource(parentComponentPath);
+
+      if (source) {
+        const methodsInfo = TypeScriptParser.extractMethods(source, baseClassName);
+        if (methodsInfo) {
+          inheritedMethods.push(
+            ...methodsInfo.methods.map(method => ({
+              ...method,
+              inherited: true,
+              inheritedFrom: baseClassName,
+            }))
+          );
+
+          // Recursively get grandparent methods (nearest declaration wins)
+          if (methodsInfo.baseClass) {
+            const ownNames = new Set(inheritedMethods.map(m => m.name));
+            inheritedMethods.push(
+              ...this.getInheritedMethods(methodsInfo.baseClass).filter(m => !ownNames.has(m.name))
+            );
+          }
+        }
+      }
+    } catch (error) {
+      console.error(`Error extracting ${baseClassName}:`, error);
+    }
+
+    return inheritedMethods;
+  }
+
+  /**
+   * Find the props module (or another module kind, e.g. '.component') for a parent class
+   * by searching the library. Returns the module path without extension.
+   * Handles BaseInputProps, BaseChartComponentProps, BaseInputComponent, etc.
    */
+  private findParentPropsFile(className: string, moduleSuffix: string = '.props'): string | null {
+    const cacheKey = `${className}${moduleSuffix}`;
+    if (!this.parentModuleCache.has(cacheKey)) {
+      this.parentModuleCache.set(cacheKey, this.searchParentModule(className, moduleSuffix));
+    }
+    return this.parentModuleCache.get(cacheKey) ?? null;
+  }
+
   /**
-   * Find the props file for a parent class by searching the library
-   * Handles BaseInputProps, BaseChartComponentProps, etc.
+   * Search the library for a parent class module (uncached)
    */
-  private findParentPropsFile(className: string): string | null {
+  private searchParentModule(className: string, moduleSuffix: string): string | null {
     // 1. Clean the class name (remove Props/Component suffixes)
     const baseName = className
       .replace(/Props$/, '')
@@ -143,12 +447,12 @@ export class DocumentationGenerator {
     ];
 
     for (const fileName of uniqueCandidates) {
-      const propsFileName = `${fileName}.props.js.map`;
+      const propsModuleName = `${fileName}${moduleSuffix}`;
 
       for (const searchPath of searchPaths) {
-        if (!fs.existsSync(searchPath)) continue;
+        if (!this.fileSystem.exists(searchPath)) continue;
 
-        const found = this.searchForFile(searchPath, propsFileName);
+        const found = this.searchForModule(searchPath, propsModuleName);
         if (found) {
           return found;
         }
@@ -159,20 +463,20 @@ export class DocumentationGenerator {
   }
 
   /**
-   * Recursively search for a file in a directory
+   * Recursively search for a module (e.g. 'button.props') in a directory; returns its path without extension
    */
-  private searchForFile(dir: string, targetFileName: string): string | null {
+  private searchForModule(dir: string, targetModuleName: string): string | null {
     try {
-      const entries = fs.readdirSync(dir, { withFileTypes: true });
+      const entries = this.fileSystem.readDir(dir);
 
       for (const entry of entries) {
         const fullPath = path.join(dir, entry.name);
 
         if (entry.isDirectory()) {
-          const found = this.searchForFile(fullPath, targetFileName);
+          const found = this.searchForModule(fullPath, targetModuleName);
           if (found) return found;
-        } else if (entry.isFile() && entry.name === targetFileName) {
-          return fullPath;
+        } else if (entry.isFile() && this.backend.getModuleName(entry.name) === targetModuleName) {
+          return path.join(dir, targetModuleName);
         }
       }
     } catch (error) {
@@ -182,6 +486,42 @@ export class DocumentationGenerator {
     return null;
   }
 
+  /**
+   * Apply configured deprecations (componentOverrides[name].deprecated) on top of JSDoc ones
+   */
+  private applyDeprecations(doc: ComponentDoc): ComponentDoc {
+    const deprecated = this.config.documentation.componentOverrides[doc.componentName]?.deprecated;
+    if (!deprecated) {
+      return doc;
+    }
+
+    const apply = <T extends { deprecated?: DeprecationInfo }>(
+      items: T[],
+      getName: (item: T) => string,
+      overrides: DeprecationOverrides | undefined
+    ): T[] => items.map(item => {
+      const override = overrides?.[getName(item)];
+      if (!override) return item;
+
+      return {
+        ...item,
+        deprecated: {
+          ...item.deprecated,
+          ...(override === true ? {} : override),
+          source: 'config',
+        },
+      };
+    });
+
+    return {
+      ...doc,
+      props: apply(doc.props, p => p.name, deprecated.props),
+      methods: apply(doc.methods, m => m.name, deprecated.methods),
+      events: apply(doc.events, e => e.name, deprecated.events),
+      styles: apply(doc.styles, s => s.className, deprecated.styleClasses),
+    };
+  }
+
   /**
    * Apply configuration filters to component documentation
    */
@@ -209,6 +549,11 @@ export class DocumentationGenerator {
     const filteredMethods = doc.methods.filter(method => {
       if (config.excludeMethods.includes(method.name)) return false;
 
+      // Check inherited exclusions
+      if (method.inherited && config.excludeInheritedMethods.includes(method.name)) {
+        return false;
+      }
+
       const overrides = config.componentOverrides[doc.componentName];
       if (overrides?.excludeMethods?.includes(method.name)) return false;
 
@@ -239,7 +584,8 @@ export class DocumentationGenerator {
   generateComponentDoc(componentPath: string, category: string): ComponentDoc | null {
     try {
       // Extract sources
-      const sources = SourceExtractor.extractComponentSources(componentPath);
+      this.dependencies?.add(`${componentPath}/`);
+      const sources = extractComponentSources(this.backend, componentPath);
 
       if (!sources.props && !sources.component) {
         console.warn(`No source files found for ${componentPath}`);
@@ -251,27 +597,42 @@ export class DocumentationGenerator {
       // Parse props
       let allProps: PropInfo[] = [];
       let baseClass: string | undefined;
+      let secondaryTypes: TypeDoc[] = [];
 
       if (sources.props) {
-        const propsInfo = TypeScriptParser.extractProps(sources.props);
+        const propsInfo = TypeScriptParser.extractProps(sources.props.content, this.getPropsClassName(componentName));
         if (propsInfo) {
-          allProps = propsInfo.props;
+          secondaryTypes = propsInfo.secondaryTypes;
+          allProps = this.applyResolvedTypes(propsInfo.props, sources.props.fileName, propsInfo.className);
           baseClass = propsInfo.baseClass;
 
-          // Get inherited props
+          // Get inherited props (redeclared ones are merged into the most-derived declaration)
           if (baseClass) {
             const inheritedProps = this.getInheritedProps(baseClass);
-            allProps.push(...inheritedProps);
+            allProps = this.mergeInheritedProps(allProps, inheritedProps);
           }
         }
       }
 
       // Parse methods
       let methods: MethodInfo[] = [];
+      let description: string | undefined;
+      let state: TypeDoc | undefined;
       if (sources.component) {
-        const methodsInfo = TypeScriptParser.extractMethods(sources.component);
+        state = TypeScriptParser.extractState(sources.component.content) ?? undefined;
+
+        const methodsInfo = TypeScriptParser.extractMethods(sources.component.content);
         if (methodsInfo) {
           methods = methodsInfo.methods;
+          description = methodsInfo.description;
+
+          // Get inherited methods (overridden ones are documented on the component itself)
+          if (methodsInfo.baseClass) {
+            const ownNames = new Set(methods.map(m => m.name));
+            methods.push(
+              ...this.getInheritedMethods(methodsInfo.baseClass).filter(m => !ownNames.has(m.name))
+            );
+          }
         }
       }
 
@@ -280,36 +641,47 @@ export class DocumentationGenerator {
         name: e.name,
         type: e.type,
         parameters: this.extractEventParameters(e.type),
+        description: e.description,
+        deprecated: e.deprecated,
+        since: e.since,
+        source: 'prop',
+        inheritedFrom: e.inheritedFrom,
       }));
 
-      // Extract events from JavaScript invokeEventCallback calls
+      // Extract events from invokeEventCallback calls and callback prop invocations in the TypeScript source
       // We need to scan both the component itself and any referenced components it uses
-      const jsFile = path.join(componentPath, `${componentName}.component.js`);
       let callbackEvents: EventInfo[] = [];
+      let referencedComponents: string[] = [];
 
-      if (fs.existsSync(jsFile)) {
-        const jsContent = fs.readFileSync(jsFile, 'utf-8');
+      if (sources.component) {
+        const propTypes = new Map(allProps.map(p => [p.name, p.resolvedType ?? p.type]));
 
         // Extract events from this component
-        const events = TypeScriptParser.extractEventCallbacks(jsContent);
+        const events = TypeScriptParser.extractEventCallbacks(sources.component.content, propTypes);
         events.forEach(e => {
           callbackEvents.push({
             name: e.name,
             type: 'Function',
             parameters: e.parameters,
+            payload: e.payload,
+            source: 'invoke',
+            raisedBy: 'invoke',
           });
         });
 
         // Find all referenced component files that this component imports/uses
         // Look for patterns like: import { Tappable } from '...path.../tappable.component'
-        // or React.createElement(Tappable, ...)
-        const referencedComponents = this.findReferencedComponents(jsContent);
+        referencedComponents = this.findReferencedComponents(sources.component.content);
 
         // Extract events from referenced components
-        for (const refComponentPath of referencedComponents) {
-          if (fs.existsSync(refComponentPath)) {
-            const refContent = fs.readFileSync(refComponentPath, 'utf-8');
+        for (const refModulePath of referencedComponents) {
+          const refContent = this.readSource(refModulePath);
+          if (refContent) {
             const refEvents = TypeScriptParser.extractEventCallbacks(refContent);
+            const refClassName = refEvents.length > 0
+              ? TypeScriptParser.extractMethods(refContent)?.className
+              : undefined;
+
             refEvents.forEach(e => {
               // Only add if not already present
               if (!callbackEvents.find(existing => existing.name === e.name)) {
@@ -317,6 +689,10 @@ export class DocumentationGenerator {
                   name: e.name,
                   type: 'Function',
                   parameters: e.parameters,
+                  payload: e.payload,
+                  source: this.toModuleId(refModulePath),
+                  raisedBy: this.toModuleId(refModulePath),
+                  inheritedFrom: refClassName,
                 });
               }
             });
@@ -324,41 +700,58 @@ export class DocumentationGenerator {
         }
       }
 
-      // Merge events, preferring callback events over prop events (more accurate parameters)
+      // Merge events: the invoke site gives the actual arguments and where the event is raised (raisedBy),
+      // the prop declaration gives the callback type, the author's JSDoc and the source ('prop')
       const eventMap = new Map<string, EventInfo>();
       propsEvents.forEach(e => eventMap.set(e.name, e));
-      callbackEvents.forEach(e => eventMap.set(e.name, e)); // Overwrites if duplicate
+      callbackEvents.forEach(e => {
+        const declared = eventMap.get(e.name);
+        eventMap.set(e.name, !declared ? e : {
+          ...declared,
+          parameters: e.parameters ?? declared.parameters,
+          payload: e.payload,
+          raisedBy: e.raisedBy,
+        });
+      });
       const events: EventInfo[] = Array.from(eventMap.values());
 
       // Parse styles
       let styles: StyleInfo[] = [];
+      let unresolvedStyleClasses: string[] = [];
       if (sources.styles) {
-        const styleInfo = TypeScriptParser.extractStyleClasses(sources.styles);
+        const styleInfo = TypeScriptParser.extractStyleClasses(sources.styles.content, this.getThemeDefaults());
         if (styleInfo) {
           styles = [
             {
               className: styleInfo.defaultClass,
               description: 'Default style class',
+              properties: this.asStyleProperties(styleInfo.properties[styleInfo.defaultClass]),
             },
             ...styleInfo.styleClasses
               .filter(cls => cls !== styleInfo.defaultClass)
               .map(cls => ({
                 className: cls,
+                properties: this.asStyleProperties(styleInfo.properties[cls]),
               })),
           ];
+
+          unresolvedStyleClasses = styleInfo.unresolvedClasses;
+          if (unresolvedStyleClasses.length > 0) {
+            console.warn(`Could not statically resolve style class names in ${componentName}: ${unresolvedStyleClasses.join(', ')}`);
+          }
         }
       }
 
-      // Check for child components
+      // Check for child components (discovered, with childComponents config as overrides)
       const childData: ComponentDoc[] = [];
-      const childConfig = this.config.childComponents[componentName];
-
-      if (childConfig) {
-        // console.log(`Processing children for ${componentName}...`, Object.keys(childConfig));
-        for (const [childName, relativePath] of Object.entries(childConfig)) {
-          const childPath = path.resolve(componentPath, relativePath);
-
-          if (fs.existsSync(childPath)) {
+      const childComponents = this.findChildComponents(componentPath, componentName, sources.component?.content);
+
+      if (childComponents.size > 0) {
+        this.componentsInProgress.add(path.resolve(componentPath));
+        for (const [childName, childPath] of childComponents) {
+          if (this.componentsInProgress.has(path.resolve(childPath))) {
+            console.warn(`Skipping child ${childName} of ${componentName}: it is already documented as one of its ancestors`);
+          } else if (this.fileSystem.exists(childPath)) {
             // Generate docs for the child
             // Note: We use the same category as the parent
             const childDoc = this.generateComponentDoc(childPath, category);
@@ -371,6 +764,7 @@ export class DocumentationGenerator {
             console.warn(`Child component path not found: ${childPath} (for ${childName} in ${componentName})`);
           }
         }
+        this.componentsInProgress.delete(path.resolve(componentPath));
       }
 
       const doc: ComponentDoc = {
@@ -383,10 +777,18 @@ export class DocumentationGenerator {
         styles,
         baseClass,
         children: childData.length > 0 ? childData : undefined,
+        description,
+        state,
+        secondaryTypes: secondaryTypes.length > 0 ? secondaryTypes : undefined,
+        unresolvedStyleClasses: unresolvedStyleClasses.length > 0 ? unresolvedStyleClasses : undefined,
+        declarationOnly: sources.props?.declarationOnly || sources.component?.declarationOnly || undefined,
+        dependencies: referencedComponents.length > 0
+          ? [...new Set(referencedComponents.map(modulePath => this.toModuleId(modulePath)))]
+          : undefined,
       };
 
-      // Apply filters before returning
-      return this.filterComponentDoc(doc);
+      // Apply configured deprecations and filters before returning
+      return this.filterComponentDoc(this.applyDeprecations(doc));
     } catch (error) {
       console.error(`Error generating docs for ${componentPath}:`, error);
       return null;
@@ -394,10 +796,120 @@ export class DocumentationGenerator {
   }
 
   /**
-   * Find all referenced component files that this component imports/uses
+   * Conventional Props class name for a component folder (e.g. progress-bar -> WmProgressBarProps)
+   */
+  private getPropsClassName(componentName: string): string {
+    const pascalCase = componentName
+      .split('-')
+      .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+      .join('');
+    return `Wm${pascalCase}Props`;
+  }
+
+  /**
+   * Child components of a component: sub-folders with their own component/props modules, and
+   * sibling component folders whose widgets the parent renders or type-checks against and
+   * that are not documented on their own.
+   * childComponents config entries override discovered paths; a false entry drops a child.
+   * @param componentSource - The parent's component source
+   */
+  private findChildComponents(componentPath: string, componentName: string, componentSource?: string): Map<string, string> {
+    const discovered = new Map<string, string>();
+
+    // Widgets that are whitelisted or excluded are documented (or skipped) on their own, never as children
+    const { includeComponents, excludeComponents } = this.config;
+    const isStandalone = (name: string) => includeComponents.includes(name) || excludeComponents.includes(name);
+
+    for (const entry of this.fileSystem.readDir(componentPath)) {
+      const subdirPath = path.join(componentPath, entry.name);
+      if (entry.isDirectory() && !entry.name.startsWith('.') && !isStandalone(entry.name) && this.isComponentDir(subdirPath)) {
+        discovered.set(entry.name, subdirPath);
+      }
+    }
+
+    const renderedModules = componentSource
+      ? TypeScriptParser.findRenderedImports(componentSource).map(specifier => this.resolveImport(componentPath, specifier))
+      : [];
+
+    for (const modulePath of renderedModules) {
+      if (!modulePath) continue;
+      const dir = path.dirname(modulePath);
+      const name = path.basename(dir);
+      if (path.dirname(dir) === path.dirname(componentPath) && dir !== componentPath &&
+          !isStandalone(name) && this.isComponentDir(dir)) {
+        discovered.set(name, dir);
+      }
+    }
+
+    const overrides = this.config.childComponents[componentName] ?? {};
+    const unlisted = [...discovered.keys()].filter(name => !(name in overrides));
+    if (unlisted.length > 0) {
+      console.log(`Discovered child components of ${componentName} not in childComponents config: ${unlisted.join(', ')}`);
+    }
+
+    const children = new Map<string, string>();
+    for (const [childName, relativePath] of Object.entries(overrides)) {
+      if (relativePath !== false) {
+        children.set(childName, path.resolve(componentPath, relativePath));
+      }
+    }
+    for (const [childName, childPath] of discovered) {
+      if (!(childName in overrides)) {
+        children.set(childName, childPath);
+      }
+    }
+
+    return children;
+  }
+
+  /**
+   * Module path of a runtime import (package or relative specifier), or null for other packages
+   */
+  private resolveImport(fromDir: string, specifier: string): string | null {
+    const runtimePrefix = '@wavemaker/app-rn-runtime/';
+    if (specifier.startsWith(runtimePrefix)) {
+      return path.join(this.libraryPath, specifier.slice(runtimePrefix.length));
+    }
+    return specifier.startsWith('.') ? path.resolve(fromDir, specifier) : null;
+  }
+
+  /**
+   * Whether a directory holds a component (.component or .props module)
+   */
+  private isComponentDir(dirPath: string): boolean {
+    try {
+      return this.fileSystem.readDir(dirPath).some(item => {
+        const moduleName = item.isFile() ? this.backend.getModuleName(item.name) : null;
+        return !!moduleName && (moduleName.endsWith('.component') || moduleName.endsWith('.props'));
+      });
+    } catch (error) {
+      return false;
+    }
+  }
+
+  /**
+   * Runtime modules imported by a module, as library-relative ids (e.g. 'core/tappable.component')
+   */
+  getModuleImports(moduleId: string): string[] {
+    const source = this.readSource(path.join(this.libraryPath, moduleId));
+    if (!source) {
+      return [];
+    }
+    return [...new Set(this.findReferencedComponents(source).map(modulePath => this.toModuleId(modulePath)))];
+  }
+
+  /**
+   * Library-relative, '/'-separated id of a module path
+   */
+  private toModuleId(modulePath: string): string {
+    return path.relative(this.libraryPath, modulePath).split(path.sep).join('/');
+  }
+
+  /**
+   * Find the module paths of all referenced component files that this component imports/uses
    * Looks for import statements to find dependencies
    */
-  private findReferencedComponents(jsContent: string): string[] {
+  private findReferencedComponents(sourceCode: string): string[] {
     const componentPaths: string[] = [];
 
     // Match import statements like: import { Tappable } from '@wavemaker/app-rn-runtime/core/tappable.component'
@@ -405,11 +917,11 @@ export class DocumentationGenerator {
     const importPattern = /from\s+['"]@wavemaker\/app-rn-runtime\/((?:core|components)\/[^'"]+)['"]/g;
 
     let match;
-    while ((match = importPattern.exec(jsContent)) !== null) {
+    while ((match = importPattern.exec(sourceCode)) !== null) {
       const relativePath = match[1]; // e.g., 'core/tappable.component'
 
       // Build full path
-      const fullPath = path.join(this.libraryPath, relativePath + '.js');
+      const fullPath = path.join(this.libraryPath, relativePath);
       componentPaths.push(fullPath);
     }
 
@@ -439,24 +951,25 @@ export class DocumentationGenerator {
    */
   /**
    * Recursive function to find components in a directory
+   * @param includeAll - Collect every component directory, not only whitelisted ones
    */
-  private findComponentsInDir(dirPath: string, category: string, components: Array<{ path: string; category: string }>): void {
-    const items = fs.readdirSync(dirPath, { withFileTypes: true });
+  private findComponentsInDir(
+    dirPath: string,
+    category: string,
+    components: Array<{ path: string; category: string }>,
+    includeAll: boolean = false
+  ): void {
+    const items = this.fileSystem.readDir(dirPath);
 
     // Check if this directory itself is a component
-    // We check for .component.js.map or .props.js.map files where the basename matches the folder name 
-    // OR just any .component.js.map file 
-    const hasComponentFiles = items.some(item =>
-      item.isFile() && (item.name.endsWith('.component.js.map') || item.name.endsWith('.props.js.map'))
-    );
-
-    if (hasComponentFiles) {
+    // We check for .component or .props modules (.js.map or .ts/.tsx, depending on the input backend)
+    if (this.isComponentDir(dirPath)) {
       // It's a component!
       const componentName = path.basename(dirPath);
 
       // Check inclusions based on folder name
       // Use includeComponents whitelist
-      if (this.config.includeComponents.includes(componentName)) {
+      if (includeAll || this.config.includeComponents.includes(componentName)) {
         components.push({ path: dirPath, category });
       } else {
         // console.log(`Skipping ${componentName} (not in includeComponents)`);
@@ -471,24 +984,91 @@ export class DocumentationGenerator {
         // Skip node_modules or hidden folders
         if (item.name.startsWith('.') || item.name === 'node_modules') continue;
 
-        this.findComponentsInDir(path.join(dirPath, item.name), category, components);
+        this.findComponentsInDir(path.join(dirPath, item.name), category, components, includeAll);
+      }
+    }
+  }
+
+  /**
+   * Check every component directory in the library against the includeComponents whitelist
+   */
+  getCoverage(): CoverageReport {
+    const found: Array<{ path: string; category: string }> = [];
+    const categoriesPath = path.join(this.libraryPath, 'components');
+
+    if (this.fileSystem.exists(categoriesPath)) {
+      for (const entry of this.fileSystem.readDir(categoriesPath)) {
+        if (entry.isDirectory()) {
+          this.findComponentsInDir(path.join(categoriesPath, entry.name), entry.name, found, true);
+        }
+      }
+    } else {
+      console.error(`Components path not found: ${categoriesPath}`);
+    }
+
+    const { includeComponents, excludeComponents, excludeCategories, componentAliases } = this.config;
+    const isDocumented = (c: { path: string; category: string }) =>
+      includeComponents.includes(path.basename(c.path)) && !excludeCategories.includes(c.category);
+
+    // Children are documented with their parent, so they need no whitelist entry
+    const parents = new Map<string, string>();
+    for (const component of found.filter(isDocumented)) {
+      const name = path.basename(component.path);
+      const source = extractComponentSources(this.backend, component.path).component?.content;
+      for (const childPath of this.findChildComponents(component.path, name, source).values()) {
+        parents.set(childPath, name);
       }
     }
+
+    const components: ComponentCoverage[] = found.map(component => {
+      const name = path.basename(component.path);
+      const aliases = Object.keys(componentAliases).filter(alias => resolveAlias(componentAliases[alias]).source === name);
+      let status: ComponentCoverage['status'] = 'unlisted';
+
+      if (excludeCategories.includes(component.category)) {
+        status = 'excluded-category';
+      } else if (includeComponents.includes(name)) {
+        status = 'included';
+      } else if (parents.has(component.path)) {
+        status = 'child';
+      } else if (excludeComponents.includes(name)) {
+        status = 'excluded';
+      }
+
+      return {
+        name,
+        category: component.category,
+        path: component.path,
+        status,
+        parent: status === 'child' ? parents.get(component.path) : undefined,
+        aliases: aliases.length > 0 ? aliases : undefined,
+      };
+    });
+
+    const names = new Set(components.map(c => c.name));
+    return {
+      components,
+      aliases: Object.entries(componentAliases).map(([name, entry]) => {
+        const aliasOf = resolveAlias(entry).source;
+        return { name, aliasOf, found: components.some(c => c.name === aliasOf && c.status === 'included') };
+      }),
+      stale: includeComponents.filter(name => !names.has(name) && !(name in componentAliases)),
+    };
   }
 
   /**
    * Find all component directories in library
    */
-  findAllComponents(): Array<{ path: string; category: string; aliasOf?: string }> {
-    const components: Array<{ path: string; category: string; aliasOf?: string }> = [];
+  findAllComponents(): ComponentLocation[] {
+    const components: ComponentLocation[] = [];
     const categoriesPath = path.join(this.libraryPath, 'components');
 
-    if (!fs.existsSync(categoriesPath)) {
+    if (!this.fileSystem.exists(categoriesPath)) {
       console.error(`Components path not found: ${categoriesPath}`);
       return components;
     }
 
-    const categories = fs.readdirSync(categoriesPath, { withFileTypes: true })
+    const categories = this.fileSystem.readDir(categoriesPath)
       .filter(dirent => dirent.isDirectory())
       .map(dirent => dirent.name)
       .filter(name => !this.config.excludeCategories.includes(name)); // Exclude configured categories
@@ -500,7 +1080,8 @@ export class DocumentationGenerator {
 
     // Add alias components: these use props from another component
     // e.g., selectlocale uses select's props
-    for (const [aliasName, sourceComponent] of Object.entries(this.config.componentAliases)) {
+    for (const [aliasName, entry] of Object.entries(this.config.componentAliases)) {
+      const sourceComponent = resolveAlias(entry).source;
       // Find the source component in the discovered list
       const source = components.find(c => path.basename(c.path) === sourceComponent);
       if (source) {
@@ -509,6 +1090,7 @@ export class DocumentationGenerator {
           path: source.path,
           category: source.category,
           aliasOf: sourceComponent,
+          aliasName,
         });
       } else {
         console.warn(`Alias source component '${sourceComponent}' not found for alias '${aliasName}'`);
@@ -521,57 +1103,151 @@ export class DocumentationGenerator {
 
   /**
    * Generate documentation for an alias component
-   * Uses props from the source component but with a different component name
+   * Uses props from the source component but with a different component name,
+   * adjusted by the alias's hideProps / addProps / overrideProps
    */
   generateDocForAlias(aliasName: string, sourceComponentPath: string, category: string): ComponentDoc | null {
+    const aliasEntry = this.config.componentAliases[aliasName];
+    if (!aliasEntry) {
+      console.warn(`'${aliasName}' is not a configured component alias`);
+      return null;
+    }
+
     const sourceDoc = this.generateComponentDoc(sourceComponentPath, category);
     if (!sourceDoc) {
       return null;
     }
 
-    // Return doc with alias name but source's props/methods/etc
+    const alias = resolveAlias(aliasEntry);
+    const hidden = new Set(alias.hideProps ?? []);
+    const overrides = alias.overrideProps ?? {};
+
+    const unknown = [...hidden, ...Object.keys(overrides)]
+      .filter(name => !sourceDoc.props.some(prop => prop.name === name));
+    if (unknown.length > 0) {
+      console.warn(`Alias '${aliasName}' configures props that ${sourceDoc.componentName} does not have: ${unknown.join(', ')}`);
+    }
+
+    const props = sourceDoc.props
+      .filter(prop => !hidden.has(prop.name))
+      .map(prop => overrides[prop.name] ? { ...prop, ...overrides[prop.name] } : prop);
+
+    // Added props replace a source prop of the same name
+    for (const added of alias.addProps ?? []) {
+      const index = props.findIndex(prop => prop.name === added.name);
+      if (index >= 0) {
+        props[index] = added;
+      } else {
+        props.push(added);
+      }
+    }
+
+    // Return doc with alias name but source's methods/events/styles
     return {
       ...sourceDoc,
       componentName: aliasName,
       componentPath: sourceComponentPath, // Keep source path for reference
-      description: `Alias of ${sourceDoc.componentName}`,
+      description: alias.description ?? `Alias of ${sourceDoc.componentName}`,
+      props,
+      aliasOf: sourceDoc.componentName,
+      storybookFolder: alias.storybookFolder,
     };
   }
 
   /**
    * Generate documentation for all components
+   * @param components - Components already found by findAllComponents (scanned if omitted)
    */
-  generateAllDocs(): ComponentDoc[] {
-    const components = this.findAllComponents();
+  generateAllDocs(components: ComponentLocation[] = this.findAllComponents()): ComponentDoc[] {
     const docs: ComponentDoc[] = [];
 
     console.log(`Found ${components.length} components`);
 
-    for (const { path: componentPath, category, aliasOf } of components) {
-      const componentName = path.basename(componentPath);
+    for (const component of components) {
+      const doc = this.generateCached(this.getDocKey(component), () => this.generateLocation(component));
+      if (doc) {
+        docs.push(doc);
+      }
+    }
 
-      if (aliasOf) {
-        // This is an alias - find the alias name and generate with alias method
-        const aliasName = Object.entries(this.config.componentAliases)
-          .find(([_, source]) => source === aliasOf)?.[0];
+    return docs;
+  }
 
-        if (aliasName) {
-          console.log(`Generating docs for ${aliasName} (alias of ${aliasOf})...`);
-          const doc = this.generateDocForAlias(aliasName, componentPath, category);
-          if (doc) {
-            docs.push(doc);
-          }
-        }
-      } else {
-        console.log(`Generating docs for ${category}/${componentName}...`);
-        const doc = this.generateComponentDoc(componentPath, category);
+  /**
+   * Generate documentation for all components, extracting uncached ones across worker threads.
+   * Produces the same docs, in the same order, as generateAllDocs.
+   * The generation cache stays on this thread; parsed sources and parent Props chains are
+   * cached inside each worker, since ASTs cannot be shared between threads.
+   * @param workers - Number of worker threads; 1 generates on this thread
+   */
+  async generateAllDocsParallel(workers: number): Promise<ComponentDoc[]> {
+    const components = this.findAllComponents();
+    if (workers <= 1 || components.length <= 1) {
+      return this.generateAllDocs(components);
+    }
+
+    console.log(`Found ${components.length} components`);
+
+    const docs: Array<ComponentDoc | null> = components.map(component =>
+      this.cache?.getDoc(this.getDocKey(component), dependency => this.hashDependency(dependency)) ?? null
+    );
+    const pending = components.filter((_, index) => !docs[index]);
+
+    if (pending.length > 0) {
+      const poolSize = Math.min(workers, pending.length);
+      console.log(`Extracting ${pending.length} components on ${poolSize} worker threads...`);
+
+      const pool = new ExtractionPool(this.libraryPath, this.config, poolSize);
+      let results: ExtractionResult[];
+      try {
+        results = await pool.run(pending);
+      } finally {
+        await pool.close();
+      }
+
+      pending.forEach((component, i) => {
+        const { doc, dependencies } = results[i];
         if (doc) {
-          docs.push(doc);
+          this.cache?.setDoc(this.getDocKey(component), doc, dependencies);
         }
+        docs[components.indexOf(component)] = doc;
+      });
+    }
+
+    return docs.filter((doc): doc is ComponentDoc => doc !== null);
+  }
+
+  /**
+   * Generate one component (or alias) with the hashes of the sources it was built from
+   * (used by extraction workers, whose results are cached on the main thread)
+   */
+  generateWithDependencies(component: ComponentLocation): ExtractionResult {
+    const { result: doc, dependencies } = this.collectDependencies(() => this.generateLocation(component));
+    return {
+      doc,
+      dependencies: Object.fromEntries(dependencies.map(dependency => [dependency, this.hashDependency(dependency)])),
+    };
+  }
+
+  /**
+   * Generation cache key: the alias name for aliases, else the component folder name
+   */
+  private getDocKey(component: ComponentLocation): string {
+    return component.aliasName ?? path.basename(component.path);
+  }
+
+  private generateLocation({ path: componentPath, category, aliasOf, aliasName }: ComponentLocation): ComponentDoc | null {
+    if (aliasOf) {
+      // This is an alias - generate with alias method
+      if (!aliasName) {
+        return null;
       }
+      console.log(`Generating docs for ${aliasName} (alias of ${aliasOf})...`);
+      return this.generateDocForAlias(aliasName, componentPath, category);
     }
 
-    return docs;
+    console.log(`Generating docs for ${category}/${path.basename(componentPath)}...`);
+    return this.generateComponentDoc(componentPath, category);
   }
 
   /**
@@ -583,7 +1259,8 @@ export class DocumentationGenerator {
       fs.mkdirSync(dir, { recursive: true });
     }
 
-    fs.writeFileSync(outputPath, JSON.stringify(docs, null, 2), 'utf-8');
+    const stamped = docs.map(doc => ({ schemaVersion: SCHEMA_VERSION, ...doc }));
+    fs.writeFileSync(outputPath, JSON.stringify(stamped, null, 2), 'utf-8');
     console.log(`Documentation saved to ${outputPath}`);
   }
 
@@ -598,7 +1275,9 @@ export class DocumentationGenerator {
     const fileName = `${doc.componentName}.json`;
     const filePath = path.join(outputDir, fileName);
 
-    fs.writeFileSync(filePath, JSON.stringify(doc, null, 2), 'utf-8');
+    // $schema points editors at the schema saved next to the docs
+    const stamped = { $schema: `./${SCHEMA_FILE_NAME}`, schemaVersion: SCHEMA_VERSION, ...doc };
+    fs.writeFileSync(filePath, JSON.stringify(stamped, null, 2), 'utf-8');
     console.log(`Saved ${fileName}`);
   }
 }
@@ -0,0 +1,158 @@
+/**
+ * Worker-thread pool for extracting component docs in parallel
+ *
+ * Each worker opens the library and keeps its own DocumentationGenerator, so parsed sources
+ * and parent Props / component chains are reused across every component that worker extracts.
+ * Tasks are handed out one at a time as workers become free; results come back in task order.
+ */
+
+import * as os from 'os';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { Worker } from 'worker_threads';
+import { GeneratorConfig } from './config.js';
+import { ComponentDoc, ComponentLocation } from './types.js';
+
+export interface ExtractionResult {
+  doc: ComponentDoc | null;
+  /** Dependency key -> content hash, for the generation cache */
+  dependencies: Record<string, string | null>;
+}
+
+/** Message from a worker: the result (or failure) of one task */
+export interface WorkerResponse {
+  id: number;
+  result?: ExtractionResult;
+  error?: string;
+}
+
+/**
+ * Default worker count: one per core, leaving one for the main thread
+ */
+export function getDefaultWorkerCount(): number {
+  return Math.max(1, os.availableParallelism() - 1);
+}
+
+/** State of the run in progress */
+interface PoolRun {
+  tasks: ComponentLocation[];
+  results: ExtractionResult[];
+  next: number;
+  done: number;
+  resolve: (results: ExtractionResult[]) => void;
+  reject: (error: Error) => void;
+}
+
+export class ExtractionPool {
+  private workers: Worker[];
+  /** Task id each busy worker is extracting */
+  private inFlight = new Map<Worker, number>();
+  private current: PoolRun | null = null;
+
+  /**
+   * @param config - Full generator config (sent to every worker)
+   */
+  constructor(libraryPath: string, config: GeneratorConfig, size: number) {
+    this.workers = Array.from({ length: size }, () => {
+      const worker = this.createWorker({ libraryPath, config });
+      worker.on('message', (response: WorkerResponse) => this.handleResponse(worker, response));
+      worker.on('error', error => this.fail(error));
+      // A worker killed without an 'error' event (process.exit, out of memory) would otherwise leave its task pending
+      worker.on('exit', code => this.handleExit(worker, code));
+      return worker;
+    });
+  }
+
+  /**
+   * Start a worker from the same place as this module: extraction-worker.js from dist,
+   * or extraction-worker.ts when running from source under tsx
+   */
+  private createWorker(workerData: { libraryPath: string; config: GeneratorConfig }): Worker {
+    const extension = path.extname(fileURLToPath(import.meta.url));
+    const workerUrl = new URL(`./extraction-worker${extension}`, import.meta.url);
+
+    if (extension !== '.ts') {
+      return new Worker(workerUrl, { workerData });
+    }
+
+    // tsx's loader is not inherited by worker threads; register it in the worker before loading the entry
+    const tsxApi = import.meta.resolve('tsx/esm/api');
+    const bootstrap = `import(${JSON.stringify(tsxApi)}).then(api => { api.register(); return import(${JSON.stringify(workerUrl.href)}); })`;
+    return new Worker(bootstrap, { eval: true, workerData });
+  }
+
+  /**
+   * Extract every task; a component that fails is logged and yields a null doc.
+   * Rejects if a worker crashes or exits before all tasks are done.
+   */
+  run(tasks: ComponentLocation[]): Promise<ExtractionResult[]> {
+    if (this.current) {
+      return Promise.reject(new Error('The extraction pool is already running'));
+    }
+    if (tasks.length === 0) {
+      return Promise.resolve([]);
+    }
+    if (this.workers.length === 0) {
+      return Promise.reject(new Error('All extraction workers have exited'));
+    }
+
+    return new Promise((resolve, reject) => {
+      this.current = { tasks, results: new Array<ExtractionResult>(tasks.length), next: 0, done: 0, resolve, reject };
+      this.workers.forEach(worker => this.dispatch(worker));
+    });
+  }
+
+  async close(): Promise<void> {
+    await Promise.all(this.workers.map(worker => worker.terminate()));
+  }
+
+  private dispatch(worker: Worker): void {
+    const run = this.current;
+    if (run && run.next < run.tasks.length) {
+      const id = run.next++;
+      this.inFlight.set(worker, id);
+      worker.postMessage({ id, task: run.tasks[id] });
+    }
+  }
+
+  private handleResponse(worker: Worker, { id, result, error }: WorkerResponse): void {
+    this.inFlight.delete(worker);
+    const run = this.current;
+    if (!run) {
+      return;
+    }
+
+    if (error !== undefined) {
+      console.error(`Error generating docs for ${path.basename(run.tasks[id].path)}: ${error}`);
+    }
+    run.results[id] = result ?? { doc: null, dependencies: {} };
+
+    if (++run.done === run.tasks.length) {
+      this.current = null;
+      run.resolve(run.results);
+    } else {
+      this.dispatch(worker);
+    }
+  }
+
+  private handleExit(worker: Worker, code: number): void {
+    const id = this.inFlight.get(worker);
+    this.inFlight.delete(worker);
+    this.workers = this.workers.filter(w => w !== worker);
+
+    const task = id === undefined || !this.current ? '' : ` while generating ${path.basename(this.current.tasks[id].path)}`;
+    this.fail(new Error(`Extraction worker exited with code ${code}${task}`));
+  }
+
+  /**
+   * Reject the run in progress, if any
+   */
+  private fail(error: Error): void {
+    const run = this.current;
+    if (run) {
+      this.current = null;
+      this.inFlight.clear();
+      run.reject(error);
+    }
+  }
+}
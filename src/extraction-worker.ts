@@ -0,0 +1,20 @@
+/**
+ * Extraction worker (see ExtractionPool): generates the docs of the components it is sent
+ */
+
+import { parentPort, workerData } from 'worker_threads';
+import { DocumentationGenerator } from './doc-generator.js';
+import { WorkerResponse } from './extraction-pool.js';
+import { ComponentLocation } from './types.js';
+
+const generator = new DocumentationGenerator(workerData.libraryPath, workerData.config);
+
+parentPort!.on('message', ({ id, task }: { id: number; task: ComponentLocation }) => {
+  let response: WorkerResponse;
+  try {
+    response = { id, result: generator.generateWithDependencies(task) };
+  } catch (error) {
+    response = { id, error: error instanceof Error ? error.message : String(error) };
+  }
+  parentPort!.postMessage(response);
+});
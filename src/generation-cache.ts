@@ -0,0 +1,145 @@
+/**
+ * Persistent cache for incremental generation
+ *
+ * Each component doc is stored with the hashes of every source it was built from
+ * (its own modules, parent classes, referenced components, theme variables).
+ * A doc is reused while all of those hashes and the configuration hash are unchanged;
+ * markdown is skipped while the doc it was generated from is unchanged.
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ComponentDoc } from './types.js';
+
+/** Bump when extraction changes in a way that invalidates cached docs */
+const CACHE_VERSION = 5;
+
+export const CACHE_FILE_NAME = '.doc-cache.json';
+
+interface CacheEntry {
+  /** Dependency key (module path, or directory) -> content hash; null if it did not exist */
+  dependencies: Record<string, string | null>;
+  doc: ComponentDoc;
+  /** Hash of the doc + LLM settings the markdown was last generated from */
+  markdownHash?: string;
+}
+
+interface CacheFile {
+  version: number;
+  configHash: string;
+  entries: Record<string, CacheEntry>;
+}
+
+export class GenerationCache {
+  private filePath: string;
+  private data: CacheFile;
+  private reused: string[] = [];
+  private regenerated: string[] = [];
+  private markdownSkipped: string[] = [];
+
+  /**
+   * @param filePath - Cache file (kept next to the generated JSON)
+   * @param configHash - Hash of the library path and every setting that affects extraction
+   * @param force - Ignore cached entries (they are still rewritten)
+   */
+  constructor(filePath: string, configHash: string, force: boolean = false) {
+    this.filePath = filePath;
+    this.data = { version: CACHE_VERSION, configHash, entries: {} };
+
+    if (force || !fs.existsSync(filePath)) {
+      return;
+    }
+
+    try {
+      const cached = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as CacheFile;
+      if (cached.version === CACHE_VERSION && cached.configHash === configHash) {
+        this.data.entries = cached.entries;
+      } else {
+        console.log('Library, configuration or generator changed; ignoring generation cache');
+      }
+    } catch (error) {
+      console.warn(`Could not read generation cache ${filePath}; regenerating everything`);
+    }
+  }
+
+  /**
+   * Short content hash
+   */
+  static hash(value: string): string {
+    return crypto.createHash('sha256').update(value).digest('hex').slice(0, 16);
+  }
+
+  /**
+   * Cached doc for a component, if none of its dependencies changed
+   * @param hashDependency - Current hash of a dependency key (null if it no longer exists)
+   */
+  getDoc(key: string, hashDependency: (dependency: string) => string | null): ComponentDoc | null {
+    const entry = this.data.entries[key];
+    if (!entry) {
+      return null;
+    }
+
+    const unchanged = Object.entries(entry.dependencies)
+      .every(([dependency, hash]) => hashDependency(dependency) === hash);
+
+    if (!unchanged) {
+      return null;
+    }
+
+    this.reused.push(key);
+    return entry.doc;
+  }
+
+  /**
+   * Store a freshly generated doc with the dependency hashes it was built from
+   */
+  setDoc(key: string, doc: ComponentDoc, dependencies: Record<string, string | null>): void {
+    const previous = this.data.entries[key];
+    this.data.entries[key] = {
+      dependencies,
+      doc,
+      // Markdown stays valid if extraction produced the same doc again
+      markdownHash: previous && JSON.stringify(previous.doc) === JSON.stringify(doc) ? previous.markdownHash : undefined,
+    };
+    this.regenerated.push(key);
+  }
+
+  /**
+   * Whether markdown was already generated from exactly this doc and LLM settings
+   */
+  isMarkdownCurrent(key: string, markdownHash: string): boolean {
+    const current = this.data.entries[key]?.markdownHash === markdownHash;
+    if (current) {
+      this.markdownSkipped.push(key);
+    }
+    return current;
+  }
+
+  setMarkdownHash(key: string, markdownHash: string): void {
+    const entry = this.data.entries[key];
+    if (entry) {
+      entry.markdownHash = markdownHash;
+    }
+  }
+
+  /**
+   * Write the cache to disk
+   */
+  save(): void {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    fs.writeFileSync(this.filePath, JSON.stringify(this.data), 'utf-8');
+  }
+
+  /**
+   * One-line report of what was reused
+   */
+  getSummary(): string {
+    const total = this.reused.length + this.regenerated.length;
+    let summary = `Cache: reused ${this.reused.length}/${total} component docs, regenerated ${this.regenerated.length}`;
+    if (this.markdownSkipped.length > 0) {
+      summary += `; skipped LLM for ${this.markdownSkipped.length} unchanged components`;
+    }
+    return summary;
+  }
+}
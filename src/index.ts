@@ -4,15 +4,34 @@
  * CLI entry point for documentation generator
  */
 
-import { Command } from 'commander';
+import { Command, InvalidArgumentError } from 'commander';
 import * as path from 'path';
 import * as fs from 'fs';
 import { DocumentationGenerator } from './doc-generator.js';
 import { LLMDocGenerator } from './llm-doc-generator.js';
-import { DEFAULT_CONFIG, getApiKey } from './config.js';
+import { DEFAULT_CONFIG, getApiKey, resolveAlias } from './config.js';
+import { GenerationCache, CACHE_FILE_NAME } from './generation-cache.js';
+import { ApiDiffer, loadComponentDocs } from './api-diff.js';
+import { InputBackendKind } from './source-backend.js';
+import { ApiDiff, BreakingChangeAllowance, ComponentDoc } from './types.js';
+import { VersionHistory, getLibraryVersion, loadVersionHistory } from './version-history.js';
+import { JsonSchema, OutputSchema, SCHEMA_VERSION } from './output-schema.js';
+import { DependencyGraphBuilder } from './dependency-graph.js';
+import { getDefaultWorkerCount } from './extraction-pool.js';
 
 const program = new Command();
 
+/**
+ * Parse --workers
+ */
+function parseWorkerCount(value: string): number {
+  const count = Number(value);
+  if (!Number.isInteger(count) || count < 1) {
+    throw new InvalidArgumentError('Expected a positive whole number.');
+  }
+  return count;
+}
+
 program
   .name('wm-doc-generator')
   .description('Generate documentation for WaveMaker React Native components')
@@ -24,9 +43,14 @@ program
   .option('-a, --all', 'Generate docs for all components')
   .option('-c, --component <name>', 'Generate docs for a specific component')
   .option('-o, --output <path>', 'Output directory', './output')
-  .option('-l, --library <path>', 'Path to @wavemaker/app-rn-runtime', process.env.STORYBOOK_PATH + '/node_modules/@wavemaker/app-rn-runtime')
+  .option('-l, --library <path>', 'Path to @wavemaker/app-rn-runtime (folder or npm pack .tgz)', process.env.STORYBOOK_PATH + '/node_modules/@wavemaker/app-rn-runtime')
   .option('--single-file', 'Generate a single JSON file with all components')
   .option('--with-docs', 'Generate markdown documentation using LLM (requires ANTHROPIC_API_KEY)')
+  .option('--resolve-types', 'Resolve prop types with the TypeScript type checker and list allowed values')
+  .option('--input <backend>', "Read sources from 'sourcemap' (published package .js.map files) or 'typescript' (runtime source checkout)", 'sourcemap')
+  .option('--force', `Regenerate everything, ignoring the ${CACHE_FILE_NAME} cache in the output directory`)
+  .option('--history <paths...>', 'Older runtime versions (folders, .tgz or all-components.json; oldest first) to annotate "since" versions from')
+  .option('-j, --workers <count>', 'Worker threads for extraction (1 = main thread only)', parseWorkerCount, getDefaultWorkerCount())
   .action(async (options) => {
     const libraryPath = path.resolve(process.cwd(), options.library);
     const outputPath = path.resolve(process.cwd(), options.output);
@@ -43,7 +67,23 @@ program
       process.exit(1);
     }
 
-    const generator = new DocumentationGenerator(libraryPath);
+    if (!['sourcemap', 'typescript'].includes(options.input)) {
+      console.error(`Error: Unknown input backend '${options.input}' (expected 'sourcemap' or 'typescript')`);
+      process.exit(1);
+    }
+
+    const generator = new DocumentationGenerator(libraryPath, {
+      resolveTypes: !!options.resolveTypes,
+      input: options.input,
+    });
+
+    // Older versions are extracted once, up front, and used to annotate the current docs
+    const history = options.history
+      ? await loadVersionHistory(options.history.map((p: string) => path.resolve(process.cwd(), p)), { input: options.input }, options.workers)
+      : [];
+    const withHistory = (docs: ComponentDoc[]): ComponentDoc[] => history.length > 0
+      ? VersionHistory.annotate({ version: getLibraryVersion(libraryPath), docs }, history)
+      : docs;
 
     // Initialize LLM generator if --with-docs flag is present
     let llmGenerator: LLMDocGenerator | null = null;
@@ -66,7 +106,12 @@ program
 
     if (options.all) {
       console.log('Generating documentation for all components...\n');
-      const docs = generator.generateAllDocs();
+
+      // Unchanged components are reused from the previous run
+      const cache = new GenerationCache(path.join(outputPath, CACHE_FILE_NAME), generator.getConfigHash(), !!options.force);
+      generator.setCache(cache);
+      const docs = withHistory(await generator.generateAllDocsParallel(options.workers));
+      cache.save();
 
       if (options.singleFile) {
         const outputFile = path.join(outputPath, 'all-components.json');
@@ -77,6 +122,7 @@ program
           generator.saveComponentDoc(doc, outputPath);
         }
       }
+      OutputSchema.save(outputPath);
 
       console.log(`\n✓ Generated JSON for ${docs.length} components`);
 
@@ -86,12 +132,22 @@ program
         let successCount = 0;
         let errorCount = 0;
 
+        // Skip components whose markdown was generated from this exact doc
+        const markdownHashes = new Map(docs.map(doc => [
+          doc.componentName,
+          GenerationCache.hash(JSON.stringify([doc, DEFAULT_CONFIG.llm.provider, DEFAULT_CONFIG.llm.model])),
+        ]));
+        const pendingDocs = docs.filter(doc =>
+          !(cache.isMarkdownCurrent(doc.componentName, markdownHashes.get(doc.componentName)!) &&
+            llmGenerator.hasGeneratedDocs(doc))
+        );
+
         // Process in batches to avoid rate limits
         const batchSize = DEFAULT_CONFIG.llm.batchSize;
-        const totalBatches = Math.ceil(docs.length / batchSize);
+        const totalBatches = Math.ceil(pendingDocs.length / batchSize);
 
-        for (let i = 0; i < docs.length; i += batchSize) {
-          const batch = docs.slice(i, i + batchSize);
+        for (let i = 0; i < pendingDocs.length; i += batchSize) {
+          const batch = pendingDocs.slice(i, i + batchSize);
           const batchNumber = Math.floor(i / batchSize) + 1;
 
           console.log(`\nProcessing batch ${batchNumber}/${totalBatches} (${batch.length} components)...`);
@@ -105,6 +161,7 @@ program
           results.forEach((result, index) => {
             if (result.status === 'fulfilled') {
               successCount++;
+              cache.setMarkdownHash(batch[index].componentName, markdownHashes.get(batch[index].componentName)!);
             } else {
               errorCount++;
               const doc = batch[index];
@@ -112,7 +169,8 @@ program
             }
           });
 
-          console.log(`  Completed: ${successCount}/${docs.length} components`);
+          console.log(`  Completed: ${successCount}/${pendingDocs.length} components`);
+          cache.save();
         }
 
         console.log(`\n✓ Generated markdown for ${successCount} components`);
@@ -120,11 +178,14 @@ program
           console.log(`✗ Failed: ${errorCount} components`);
         }
       }
+
+      console.log(`\n${cache.getSummary()}`);
     } else if (options.component) {
       console.log(`Generating documentation for ${options.component}...\n`);
 
       // Check if this is an alias component
-      const aliasSource = DEFAULT_CONFIG.componentAliases[options.component.toLowerCase()];
+      const aliasEntry = DEFAULT_CONFIG.componentAliases[options.component.toLowerCase()];
+      const aliasSource = aliasEntry ? resolveAlias(aliasEntry).source : undefined;
 
       // Find the component (or source component for aliases)
       const components = generator.findAllComponents();
@@ -142,7 +203,7 @@ program
         });
         // Show alias components
         Object.keys(DEFAULT_CONFIG.componentAliases).forEach(alias => {
-          const source = DEFAULT_CONFIG.componentAliases[alias];
+          const source = resolveAlias(DEFAULT_CONFIG.componentAliases[alias]).source;
           console.error(`  - ${alias} (alias of ${source})`);
         });
         process.exit(1);
@@ -152,13 +213,17 @@ program
       if (aliasSource) {
         // Generate alias doc
         console.log(`  (${options.component} is an alias of ${aliasSource})\n`);
-        doc = generator.generateDocForAlias(options.component, component.path, component.category);
+        doc = generator.generateDocForAlias(options.component.toLowerCase(), component.path, component.category);
       } else {
         doc = generator.generateComponentDoc(component.path, component.category);
       }
+      if (doc) {
+        [doc] = withHistory([doc]);
+      }
 
       if (doc) {
         generator.saveComponentDoc(doc, outputPath);
+        OutputSchema.save(outputPath);
         console.log('\n✓ JSON documentation generated successfully!');
 
         // Generate LLM docs if requested
@@ -185,7 +250,7 @@ program
 program
   .command('list')
   .description('List all available components')
-  .option('-l, --library <path>', 'Path to @wavemaker/app-rn-runtime', '../rn-widgets-storybook/node_modules/@wavemaker/app-rn-runtime')
+  .option('-l, --library <path>', 'Path to @wavemaker/app-rn-runtime (folder or npm pack .tgz)', '../rn-widgets-storybook/node_modules/@wavemaker/app-rn-runtime')
   .action((options) => {
     const libraryPath = path.resolve(process.cwd(), options.library);
 
@@ -218,9 +283,280 @@ program
     });
   });
 
+/**
+ * Extract (or load) both sides of a version comparison and diff them
+ */
+async function compareVersions(from: string, to: string, input: string, workers: number): Promise<ApiDiff> {
+  const fromPath = path.resolve(process.cwd(), from);
+  const toPath = path.resolve(process.cwd(), to);
+
+  for (const source of [fromPath, toPath]) {
+    if (!fs.existsSync(source)) {
+      console.error(`Error: Path not found: ${source}`);
+      process.exit(1);
+    }
+  }
+
+  console.log(`Loading ${fromPath}...`);
+  const before = await loadComponentDocs(fromPath, { input: input as InputBackendKind }, workers);
+  console.log(`Loading ${toPath}...`);
+  const after = await loadComponentDocs(toPath, { input: input as InputBackendKind }, workers);
+
+  return ApiDiffer.compare(before, after, from, to);
+}
+
+/**
+ * Write api-diff.md and api-diff.json
+ */
+function saveDiff(diff: ApiDiff, output: string): string {
+  const outputPath = path.resolve(process.cwd(), output);
+  fs.mkdirSync(outputPath, { recursive: true });
+  fs.writeFileSync(path.join(outputPath, 'api-diff.json'), JSON.stringify(diff, null, 2), 'utf-8');
+  fs.writeFileSync(path.join(outputPath, 'api-diff.md'), ApiDiffer.toMarkdown(diff), 'utf-8');
+  return path.join(outputPath, 'api-diff.md');
+}
+
+program
+  .command('diff')
+  .description('Compare the component API of two runtime versions')
+  .argument('<from>', 'Older library (folder or .tgz) or saved all-components.json')
+  .argument('<to>', 'Newer library (folder or .tgz) or saved all-components.json')
+  .option('-o, --output <path>', 'Output directory for api-diff.md and api-diff.json', './output')
+  .option('--input <backend>', "Read library sources from 'sourcemap' or 'typescript'", 'sourcemap')
+  .option('-j, --workers <count>', 'Worker threads for extraction (1 = main thread only)', parseWorkerCount, getDefaultWorkerCount())
+  .action(async (from, to, options) => {
+    const diff = await compareVersions(from, to, options.input, options.workers);
+    const reportPath = saveDiff(diff, options.output);
+
+    const breaking = diff.changes.filter(change => change.breaking).length;
+    console.log(`\n✓ ${diff.changes.length} API changes (${breaking} breaking) written to ${reportPath} and api-diff.json`);
+  });
+
+program
+  .command('gate')
+  .description('Fail when a runtime upgrade has breaking API changes that are not on the allow-list')
+  .argument('<from>', 'Current library (folder or .tgz) or saved all-components.json')
+  .argument('<to>', 'Candidate library (folder or .tgz) or saved all-components.json')
+  .option('--allow <file>', 'JSON allow-list of acknowledged breaking changes', './breaking-changes.allow.json')
+  .option('-o, --output <path>', 'Also write the api-diff.md / api-diff.json report here')
+  .option('--input <backend>', "Read library sources from 'sourcemap' or 'typescript'", 'sourcemap')
+  .option('-j, --workers <count>', 'Worker threads for extraction (1 = main thread only)', parseWorkerCount, getDefaultWorkerCount())
+  .action(async (from, to, options) => {
+    const allowPath = path.resolve(process.cwd(), options.allow);
+    let allowList: BreakingChangeAllowance[] = [];
+    if (fs.existsSync(allowPath)) {
+      try {
+        allowList = JSON.parse(fs.readFileSync(allowPath, 'utf-8'));
+      } catch (error) {
+        console.error(`Error: Could not parse allow-list ${allowPath}: ${error instanceof Error ? error.message : error}`);
+        process.exit(1);
+      }
+      if (!Array.isArray(allowList)) {
+        console.error(`Error: Allow-list ${allowPath} must be a JSON array of { component, element, name, field?, reason? }`);
+        process.exit(1);
+      }
+    } else if (options.allow !== './breaking-changes.allow.json') {
+      console.error(`Error: Allow-list not found: ${allowPath}`);
+      process.exit(1);
+    }
+
+    const diff = await compareVersions(from, to, options.input, options.workers);
+    if (options.output) {
+      saveDiff(diff, options.output);
+    }
+
+    const unacknowledged = ApiDiffer.findUnacknowledged(diff, allowList);
+    const acknowledged = diff.changes.filter(change => change.breaking).length - unacknowledged.length;
+
+    if (unacknowledged.length > 0) {
+      console.error(`\n✗ ${unacknowledged.length} breaking API changes are not on the allow-list (${allowPath}):`);
+      unacknowledged.forEach(change => {
+        const detail = change.field ? ` ${change.field}: ${change.before} → ${change.after}` : '';
+        console.error(`  - ${change.component} ${change.element} '${change.name}' ${change.change}${detail}`);
+      });
+      console.error('\nAdd an entry { "component", "element", "name", "field"?, "reason" } to acknowledge a change.');
+      process.exit(1);
+    }
+
+    console.log(`\n✓ No unacknowledged breaking changes (${acknowledged} acknowledged, ${diff.changes.length} changes in total)`);
+  });
+
+program
+  .command('graph')
+  .description('Emit the component dependency graph (imports and child components) as JSON, Mermaid and DOT')
+  .option('-l, --library <path>', 'Path to @wavemaker/app-rn-runtime (folder or npm pack .tgz)', process.env.STORYBOOK_PATH + '/node_modules/@wavemaker/app-rn-runtime')
+  .option('-o, --output <path>', 'Output directory', './output')
+  .option('-f, --format <formats>', 'Comma-separated formats: json, mermaid, dot', 'json,mermaid,dot')
+  .option('--affected <module>', "List the components affected by a change to a module (e.g. 'core/tappable.component')")
+  .option('--input <backend>', "Read sources from 'sourcemap' or 'typescript'", 'sourcemap')
+  .option('-j, --workers <count>', 'Worker threads for extraction (1 = main thread only)', parseWorkerCount, getDefaultWorkerCount())
+  .action(async (options) => {
+    const libraryPath = path.resolve(process.cwd(), options.library);
+    const outputPath = path.resolve(process.cwd(), options.output);
+
+    if (!fs.existsSync(libraryPath)) {
+      console.error(`Error: Library path not found: ${libraryPath}`);
+      process.exit(1);
+    }
+
+    const generator = new DocumentationGenerator(libraryPath, { input: options.input });
+    const docs = await generator.generateAllDocsParallel(options.workers);
+    const graph = DependencyGraphBuilder.build(docs, libraryPath, moduleId => generator.getModuleImports(moduleId));
+
+    const writers: Record<string, [string, () => string]> = {
+      json: ['dependency-graph.json', () => JSON.stringify(graph, null, 2)],
+      mermaid: ['dependency-graph.mmd', () => DependencyGraphBuilder.toMermaid(graph)],
+      dot: ['dependency-graph.dot', () => DependencyGraphBuilder.toDot(graph)],
+    };
+
+    fs.mkdirSync(outputPath, { recursive: true });
+    for (const format of options.format.split(',').map((f: string) => f.trim())) {
+      const writer = writers[format];
+      if (!writer) {
+        console.error(`Error: Unknown graph format '${format}' (expected json, mermaid or dot)`);
+        process.exit(1);
+      }
+      fs.writeFileSync(path.join(outputPath, writer[0]), writer[1](), 'utf-8');
+      console.log(`Saved ${writer[0]}`);
+    }
+
+    console.log(`\n✓ Dependency graph: ${graph.nodes.length} nodes, ${graph.edges.length} edges`);
+
+    if (options.affected) {
+      const affected = DependencyGraphBuilder.findDependents(graph, options.affected)
+        .filter(id => graph.nodes.find(node => node.id === id)?.kind === 'component');
+      console.log(`\nComponents affected by ${options.affected} (${affected.length}):`);
+      affected.sort().forEach(name => console.log(`  - ${name}`));
+    }
+  });
+
+program
+  .command('coverage')
+  .description('Check every component in the library against the includeComponents whitelist')
+  .option('-l, --library <path>', 'Path to @wavemaker/app-rn-runtime (folder or npm pack .tgz)', process.env.STORYBOOK_PATH + '/node_modules/@wavemaker/app-rn-runtime')
+  .option('--input <backend>', "Read sources from 'sourcemap' or 'typescript'", 'sourcemap')
+  .option('--json <file>', 'Also write the report as JSON')
+  .option('--fail-on-unlisted', 'Exit with code 1 if a component is neither whitelisted, excluded nor a child')
+  .action((options) => {
+    const libraryPath = path.resolve(process.cwd(), options.library);
+
+    if (!fs.existsSync(libraryPath)) {
+      console.error(`Error: Library path not found: ${libraryPath}`);
+      process.exit(1);
+    }
+
+    const generator = new DocumentationGenerator(libraryPath, { input: options.input });
+    const report = generator.getCoverage();
+
+    const labels: Record<string, string> = {
+      'included': 'included',
+      'child': 'child',
+      'excluded-category': 'excluded (category)',
+      'excluded': 'excluded',
+      'unlisted': 'NOT IN WHITELIST',
+    };
+
+    console.log('\nComponent coverage:\n');
+    for (const component of report.components) {
+      let line = `  ${component.category}/${component.name}: `;
+      line += component.parent ? `child of ${component.parent}` : labels[component.status];
+      if (component.aliases) {
+        line += ` [aliased as ${component.aliases.join(', ')}]`;
+      }
+      console.log(line);
+    }
+
+    const missingAliases = report.aliases.filter(alias => !alias.found);
+    if (missingAliases.length > 0) {
+      console.log('\nAliases whose source is not documented:');
+      missingAliases.forEach(alias => console.log(`  - ${alias.name} -> ${alias.aliasOf}`));
+    }
+
+    if (report.stale.length > 0) {
+      console.log('\nWhitelist entries with no component in the library:');
+      report.stale.forEach(name => console.log(`  - ${name}`));
+    }
+
+    const unlisted = report.components.filter(component => component.status === 'unlisted');
+    const documented = report.components.filter(c => c.status === 'included' || c.status === 'child').length;
+    console.log(`\n✓ ${documented}/${report.components.length} components documented, ${unlisted.length} not in whitelist, ${report.stale.length} stale whitelist entries`);
+
+    if (options.json) {
+      const jsonPath = path.resolve(process.cwd(), options.json);
+      fs.mkdirSync(path.dirname(jsonPath), { recursive: true });
+      fs.writeFileSync(jsonPath, JSON.stringify(report, null, 2), 'utf-8');
+      console.log(`Saved ${jsonPath}`);
+    }
+
+    if (options.failOnUnlisted && unlisted.length > 0) {
+      console.error(`\n✗ New components not in includeComponents: ${unlisted.map(c => c.name).join(', ')}`);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('validate')
+  .description('Check generated {component}.json / all-components.json files against the output JSON Schema')
+  .argument('<files...>', 'Output files to check')
+  .option('--schema <path>', 'Validate against a saved component-doc.schema.json instead of the current one')
+  .action((files: string[], options) => {
+    let schema: JsonSchema;
+    try {
+      schema = options.schema
+        ? JSON.parse(fs.readFileSync(path.resolve(process.cwd(), options.schema), 'utf-8'))
+        : OutputSchema.generate();
+    } catch (error) {
+      console.error('Error: Could not load schema:', error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+
+    const schemaVersion = schema.definitions?.ComponentDocFile?.properties?.schemaVersion?.const ?? SCHEMA_VERSION;
+    let checkedCount = 0;
+    let invalidCount = 0;
+
+    for (const file of files) {
+      const filePath = path.resolve(process.cwd(), file);
+      let errors: string[];
+
+      try {
+        const value = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+        // ./output/*.json also matches the schema saved next to the docs
+        if (OutputSchema.isSchema(value)) {
+          console.log(`- ${file} (JSON Schema, skipped)`);
+          continue;
+        }
+        errors = OutputSchema.validate(value, schema);
+      } catch (error) {
+        errors = [`could not read: ${error instanceof Error ? error.message : error}`];
+      }
+
+      checkedCount++;
+      if (errors.length === 0) {
+        console.log(`✓ ${file}`);
+        continue;
+      }
+
+      invalidCount++;
+      console.error(`✗ ${file}`);
+      errors.slice(0, 20).forEach(error => console.error(`    ${error}`));
+      if (errors.length > 20) {
+        console.error(`    ... and ${errors.length - 20} more`);
+      }
+    }
+
+    console.log(`\n${checkedCount - invalidCount}/${checkedCount} files valid (schema version ${schemaVersion})`);
+    if (invalidCount > 0) {
+      process.exit(1);
+    }
+  });
+
 // Default command
 if (process.argv.length === 2) {
   program.help();
 }
 
-program.parse();
+// parseAsync so errors thrown by async actions are reported instead of becoming unhandled rejections
+program.parseAsync().catch(error => {
+  console.error('Error:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
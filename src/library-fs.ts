@@ -0,0 +1,185 @@
+/**
+ * Read-only file access to the runtime library: a folder on disk or an npm pack tarball
+ *
+ * A tarball is read into memory without unpacking; its files are addressed as if the
+ * archive were a folder, e.g. <runtime.tgz>/components/basic/button/button.props.js.map
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as zlib from 'zlib';
+
+export interface LibraryEntry {
+  name: string;
+  isFile(): boolean;
+  isDirectory(): boolean;
+}
+
+export interface LibraryFileSystem {
+  exists(filePath: string): boolean;
+
+  /**
+   * Read a file as UTF-8; throws if it does not exist
+   */
+  readFile(filePath: string): string;
+
+  /**
+   * List a directory; throws if it does not exist
+   */
+  readDir(dirPath: string): LibraryEntry[];
+}
+
+/**
+ * Plain folder, e.g. node_modules/@wavemaker/app-rn-runtime
+ */
+export class DiskFileSystem implements LibraryFileSystem {
+  exists(filePath: string): boolean {
+    return fs.existsSync(filePath);
+  }
+
+  readFile(filePath: string): string {
+    return fs.readFileSync(filePath, 'utf-8');
+  }
+
+  readDir(dirPath: string): LibraryEntry[] {
+    return fs.readdirSync(dirPath, { withFileTypes: true });
+  }
+}
+
+/**
+ * Gzipped tar archive (.tgz / .tar.gz) as produced by `npm pack` or the npm registry
+ */
+export class TarballFileSystem implements LibraryFileSystem {
+  private root: string;
+  private files = new Map<string, Buffer>();
+  private dirs = new Map<string, Map<string, 'file' | 'directory'>>();
+
+  /**
+   * @param root - Path the archive's package folder is mounted at (usually the tarball path)
+   * @param archive - Gzipped tar contents
+   */
+  constructor(root: string, archive: Buffer) {
+    this.root = path.resolve(root);
+    this.dirs.set(this.root, new Map());
+
+    const entries = this.readEntries(zlib.gunzipSync(archive));
+
+    // npm tarballs wrap everything in a single folder ('package/'); mount its contents at the root
+    const topLevel = new Set(entries.map(entry => entry.name.split('/')[0]));
+    const strip = topLevel.size === 1 && entries.every(entry => entry.name.includes('/'));
+
+    for (const entry of entries) {
+      const relative = strip ? entry.name.slice(entry.name.indexOf('/') + 1) : entry.name;
+      if (relative) {
+        this.addFile(path.join(this.root, relative), entry.content);
+      }
+    }
+  }
+
+  /**
+   * Load a tarball from disk
+   */
+  static fromFile(tarballPath: string): TarballFileSystem {
+    return new TarballFileSystem(tarballPath, fs.readFileSync(tarballPath));
+  }
+
+  exists(filePath: string): boolean {
+    const resolved = path.resolve(filePath);
+    return this.files.has(resolved) || this.dirs.has(resolved);
+  }
+
+  readFile(filePath: string): string {
+    const content = this.files.get(path.resolve(filePath));
+    if (!content) {
+      throw new Error(`ENOENT: no such file in tarball: ${filePath}`);
+    }
+    return content.toString('utf-8');
+  }
+
+  readDir(dirPath: string): LibraryEntry[] {
+    const children = this.dirs.get(path.resolve(dirPath));
+    if (!children) {
+      throw new Error(`ENOENT: no such directory in tarball: ${dirPath}`);
+    }
+
+    return Array.from(children.entries()).map(([name, kind]) => ({
+      name,
+      isFile: () => kind === 'file',
+      isDirectory: () => kind === 'directory',
+    }));
+  }
+
+  /**
+   * Register a file and all of its parent directories
+   */
+  private addFile(filePath: string, content: Buffer): void {
+    this.files.set(filePath, content);
+
+    let child = filePath;
+    let kind: 'file' | 'directory' = 'file';
+    while (child !== this.root) {
+      const parent = path.dirname(child);
+      let children = this.dirs.get(parent);
+      if (!children) {
+        children = new Map();
+        this.dirs.set(parent, children);
+      }
+      children.set(path.basename(child), kind);
+      child = parent;
+      kind = 'directory';
+    }
+  }
+
+  /**
+   * Parse the regular files of an (uncompressed) tar archive.
+   * Supports ustar name prefixes, PAX 'path' records and GNU long names.
+   */
+  private readEntries(tar: Buffer): Array<{ name: string; content: Buffer }> {
+    const entries: Array<{ name: string; content: Buffer }> = [];
+    let longName: string | undefined;
+    let offset = 0;
+
+    while (offset + 512 <= tar.length) {
+      const header = tar.subarray(offset, offset + 512);
+      if (header.every(byte => byte === 0)) {
+        break; // End-of-archive marker
+      }
+
+      const field = (start: number, length: number) =>
+        header.subarray(start, start + length).toString('utf-8').replace(/\0.*$/s, '');
+
+      const size = parseInt(field(124, 12).trim() || '0', 8);
+      const type = field(156, 1) || '0';
+      const prefix = field(257, 6).startsWith('ustar') ? field(345, 155) : '';
+      const name = longName ?? (prefix ? `${prefix}/${field(0, 100)}` : field(0, 100));
+      const content = tar.subarray(offset + 512, offset + 512 + size);
+
+      longName = undefined;
+      if (type === 'x') {
+        longName = content.toString('utf-8').match(/^\d+ path=(.*)$/m)?.[1];
+      } else if (type === 'L') {
+        longName = content.toString('utf-8').replace(/\0.*$/s, '');
+      } else if (type === '0' || type === '7') {
+        entries.push({ name: name.replace(/^\.\//, ''), content });
+      }
+
+      offset += 512 + Math.ceil(size / 512) * 512;
+    }
+
+    return entries;
+  }
+}
+
+/**
+ * Whether a library path points at a tarball rather than a folder
+ */
+export function isTarball(libraryPath: string): boolean {
+  return /\.(tgz|tar\.gz)$/i.test(libraryPath);
+}
+
+/**
+ * Open the library at a path: tarballs are read in memory, anything else from disk
+ */
+export function openLibrary(libraryPath: string): LibraryFileSystem {
+  return isTarball(libraryPath) ? TarballFileSystem.fromFile(libraryPath) : new DiskFileSystem();
+}
@@ -5,7 +5,7 @@
 
 import Anthropic from "@anthropic-ai/sdk";
 import OpenAI from "openai";
-import { ComponentDoc } from "./types.js";
+import { ComponentDoc, DeprecationInfo } from "./types.js";
 import { GeneratorConfig } from "./config.js";
 import { fetchDocContent } from "./docs-fetcher.js";
 import * as fs from "fs";
@@ -105,6 +105,7 @@ export class LLMDocGenerator {
 - Styles: ${JSON.stringify(doc.styles.slice(0, 10))}
 
 ${existingDocs ? `**Existing Docs Reference**:\n${existingDocs.substring(0, 3000)}\n` : ''}
+${this.buildDeprecationNotes(doc)}${this.buildVersionNotes(doc)}${this.buildDeclarationOnlyNote(doc)}
 
 **Output Format** - Return ONLY this JSON structure (no markdown wrapper):
 {
@@ -122,6 +123,41 @@ ${existingDocs ? `**Existing Docs Reference**:\n${existingDocs.substring(0, 3000
 4. Ensure the JSON is complete and valid`;
   }
 
+  /**
+   * Badge text for a deprecated API, identical across all generated markdown
+   */
+  private formatDeprecationBadge(deprecated: DeprecationInfo): string {
+    let badge = "⚠️ **Deprecated**";
+    if (deprecated.message) {
+      badge += ` — ${deprecated.message}`;
+    }
+    if (deprecated.replacement && !deprecated.message?.includes(deprecated.replacement)) {
+      badge += ` (use \`${deprecated.replacement}\` instead)`;
+    }
+    return badge;
+  }
+
+  /**
+   * List deprecated props/events/methods/style classes with the exact badge to render
+   */
+  private buildDeprecationNotes(doc: ComponentDoc): string {
+    const entries = [
+      ...doc.props.map(p => ({ kind: "prop", name: p.name, deprecated: p.deprecated })),
+      ...doc.events.map(e => ({ kind: "event", name: e.name, deprecated: e.deprecated })),
+      ...doc.methods.map(m => ({ kind: "method", name: m.name, deprecated: m.deprecated })),
+      ...doc.styles.map(s => ({ kind: "style class", name: s.className, deprecated: s.deprecated })),
+    ].filter((entry): entry is { kind: string; name: string; deprecated: DeprecationInfo } => !!entry.deprecated);
+
+    if (entries.length === 0) {
+      return "";
+    }
+
+    return `**IMPORTANT - Deprecated APIs**:
+Start the Description cell of each of these entries with the badge text exactly as given:
+${entries.map(e => `- ${e.kind} \`${e.name}\`: ${this.formatDeprecationBadge(e.deprecated)}`).join("\n")}
+`;
+  }
+
   /**
    * Generate documentation using Claude
    */
@@ -201,6 +237,45 @@ ${existingDocs ? `**Existing Docs Reference**:\n${existingDocs.substring(0, 3000
     return completion.choices[0]?.message?.content || "";
   }
 
+  /**
+   * List props/events/methods/style classes with a known since version or default change history
+   */
+  private buildVersionNotes(doc: ComponentDoc): string {
+    const entries = [
+      ...doc.props.map(p => ({ kind: "prop", name: p.name, since: p.since, defaultChanges: p.defaultChanges })),
+      ...doc.events.map(e => ({ kind: "event", name: e.name, since: e.since, defaultChanges: undefined })),
+      ...doc.methods.map(m => ({ kind: "method", name: m.name, since: m.since, defaultChanges: undefined })),
+      ...doc.styles.map(s => ({ kind: "style class", name: s.className, since: s.since, defaultChanges: undefined })),
+    ].filter(entry => entry.since || entry.defaultChanges?.length);
+
+    if (entries.length === 0) {
+      return "";
+    }
+
+    const describe = (entry: typeof entries[number]) => [
+      entry.since ? `**Since ${entry.since}**` : "",
+      ...(entry.defaultChanges ?? []).map(c => `default changed in ${c.version} (was \`${c.before ?? "none"}\`)`),
+    ].filter(Boolean).join("; ");
+
+    return `**IMPORTANT - Version Badges**:
+End the Description cell of each of these entries with the text exactly as given:
+${entries.map(e => `- ${e.kind} \`${e.name}\`: ${describe(e)}`).join("\n")}
+`;
+  }
+
+  /**
+   * Warn that defaults are unknown when the component was documented from .d.ts files
+   */
+  private buildDeclarationOnlyNote(doc: ComponentDoc): string {
+    if (!doc.declarationOnly) {
+      return "";
+    }
+
+    return `**IMPORTANT - Declaration-only Data**:
+This component was extracted from type declarations only. Default values are unknown: leave the Default column empty rather than guessing.
+`;
+  }
+
   /**
    * Build complete prompt for all sections
    * @param doc - Component documentation from source code
@@ -215,7 +290,7 @@ ${existingDocs ? `**Existing Docs Reference**:\n${existingDocs.substring(0, 3000
         name: p.name,
         type: p.type,
         default: p.defaultValue,
-        desc: "To be filled"
+        desc: p.description || "To be filled"
       })),
       events: c.events,
       styles: c.styles
@@ -227,7 +302,8 @@ ${existingDocs ? `**Existing Docs Reference**:\n${existingDocs.substring(0, 3000
 - Category: ${doc.category}
 - Base Class: ${doc.baseClass}
 - Child Components: ${childNames}
-- Props: ${JSON.stringify(doc.props.slice(0, 50).map(p => ({ name: p.name, type: p.type, default: p.defaultValue })))}
+- Description: ${doc.description || ""}
+- Props: ${JSON.stringify(doc.props.slice(0, 50).map(p => ({ name: p.name, type: p.type, default: p.defaultValue, desc: p.description })))}
 - Events: ${JSON.stringify(doc.events)}
 - Methods: ${JSON.stringify(doc.methods)}
 - Styles: ${JSON.stringify(doc.styles)}
@@ -259,7 +335,13 @@ ${existingDocs ? `**IMPORTANT - Using Existing Docs**:
 - Use the rich descriptions, use cases, and examples from existing docs.
 - The **Extracted Props/Events** below are the source of truth for the mobile API.
 
-` : ''}
+` : ''}**IMPORTANT - Author Descriptions**:
+- Any "desc"/"description" values in the Component Data come from the runtime authors' JSDoc comments.
+- Use them as the authoritative text (you may polish grammar). Only write your own descriptions where none is given.
+- Mention "since" information where present.
+
+${this.buildDeprecationNotes(doc)}${this.buildVersionNotes(doc)}${this.buildDeclarationOnlyNote(doc)}
+
 1. **overview**:
    - Start with "# Overview".
    - 1-2 paragraph description of the component.
@@ -307,6 +389,15 @@ Page.Widgets.myAccordion.defaultpaneindex= 2;
 - all the props, events, methods etc names, name inside the tables, should be highlighted in backticks`;
   }
 
+  /**
+   * Whether all markdown files of a component exist from a previous run
+   */
+  hasGeneratedDocs(componentDoc: ComponentDoc): boolean {
+    const targetDir = this.getTargetDir(componentDoc);
+    return ["overview.md", "props.md", "events.md", "methods.md", "styling.md"]
+      .every(file => fs.existsSync(path.join(targetDir, file)));
+  }
+
   /**
    * Get target directory for component docs
    */
@@ -314,13 +405,11 @@ Page.Widgets.myAccordion.defaultpaneindex= 2;
     const folderName = this.toWmPascalCase(componentDoc.componentName);
 
     // Manual overrides for specific components
-    let storybookComponentFolder = folderName;
+    let storybookComponentFolder = componentDoc.storybookFolder ?? folderName;
     if (componentDoc.componentName === 'dialog') {
       storybookComponentFolder = 'WmDesignDialog';
     } else if (componentDoc.componentName === 'layoutgrid') {
       storybookComponentFolder = 'WmGridLayout';
-    } else if (componentDoc.componentName === 'selectlocale') {
-      storybookComponentFolder = 'WmSelectLocale';
     }
 
     return path.join(
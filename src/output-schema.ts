@@ -0,0 +1,337 @@
+/**
+ * JSON Schema of the generated output, derived from the ComponentDoc interfaces in types.ts
+ *
+ * The schema is built with the TypeScript type checker from the types file shipped with the
+ * generator (types.ts when run from source, types.d.ts when built), so it cannot drift from
+ * the types. Output files carry SCHEMA_VERSION; consumers compare it to the version they support.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as ts from 'typescript';
+import { fileURLToPath } from 'url';
+
+/** Bump when the shape of ComponentDoc changes (major: fields removed or retyped; minor: fields added) */
+export const SCHEMA_VERSION = '1.0';
+
+export const SCHEMA_FILE_NAME = 'component-doc.schema.json';
+
+export interface JsonSchema {
+  $schema?: string;
+  $ref?: string;
+  title?: string;
+  description?: string;
+  type?: string;
+  const?: unknown;
+  enum?: unknown[];
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  anyOf?: JsonSchema[];
+  definitions?: Record<string, JsonSchema>;
+}
+
+export class OutputSchema {
+  private static cached: JsonSchema | null = null;
+
+  /**
+   * Schema of a saved {component}.json or all-components.json
+   */
+  static generate(): JsonSchema {
+    if (this.cached) {
+      return this.cached;
+    }
+
+    const typesFile = this.findTypesFile();
+    const program = ts.createProgram([typesFile], { strict: true, noEmit: true });
+    const checker = program.getTypeChecker();
+    const sourceFile = program.getSourceFile(typesFile)!;
+    const definitions: Record<string, JsonSchema> = {};
+
+    const componentDoc = sourceFile.statements
+      .find((s): s is ts.InterfaceDeclaration => ts.isInterfaceDeclaration(s) && s.name.text === 'ComponentDoc');
+    if (!componentDoc) {
+      throw new Error(`ComponentDoc not found in ${typesFile}`);
+    }
+
+    this.toDefinition(checker.getTypeAtLocation(componentDoc.name), 'ComponentDoc', checker, sourceFile, definitions);
+
+    // Top-level docs are stamped with the schema version (children are not)
+    const doc = definitions.ComponentDoc;
+    definitions.ComponentDocFile = {
+      ...doc,
+      properties: {
+        $schema: { type: 'string' },
+        schemaVersion: { type: 'string', const: SCHEMA_VERSION },
+        ...doc.properties,
+      },
+      required: ['schemaVersion', ...(doc.required ?? [])],
+    };
+
+    this.cached = {
+      $schema: 'http://json-schema.org/draft-07/schema#',
+      title: 'WaveMaker component documentation',
+      description: `{component}.json (one doc) or all-components.json (array of docs), schema version ${SCHEMA_VERSION}`,
+      anyOf: [
+        { $ref: '#/definitions/ComponentDocFile' },
+        { type: 'array', items: { $ref: '#/definitions/ComponentDocFile' } },
+      ],
+      definitions,
+    };
+    return this.cached;
+  }
+
+  /**
+   * Write the schema next to generated output
+   */
+  static save(outputDir: string): void {
+    fs.mkdirSync(outputDir, { recursive: true });
+    fs.writeFileSync(path.join(outputDir, SCHEMA_FILE_NAME), JSON.stringify(this.generate(), null, 2), 'utf-8');
+    console.log(`Saved ${SCHEMA_FILE_NAME}`);
+  }
+
+  /**
+   * Validate a value against a schema (the subset of draft-07 that generate() emits)
+   * @returns One message per violation, prefixed with its JSON path
+   */
+  static validate(value: unknown, schema: JsonSchema = this.generate()): string[] {
+    const errors: string[] = [];
+    this.check(value, schema, schema, '$', errors);
+    return errors;
+  }
+
+  /**
+   * Whether a parsed JSON file is a JSON Schema (such as a saved component-doc.schema.json)
+   * rather than generated output; output docs reference the schema by relative path instead
+   */
+  static isSchema(value: unknown): boolean {
+    const $schema = value && typeof value === 'object' ? (value as JsonSchema).$schema : undefined;
+    return typeof $schema === 'string' && $schema.includes('json-schema.org');
+  }
+
+  private static check(value: unknown, schema: JsonSchema, root: JsonSchema, at: string, errors: string[]): void {
+    if (schema.$ref) {
+      const name = schema.$ref.replace('#/definitions/', '');
+      const target = root.definitions?.[name];
+      if (!target) {
+        errors.push(`${at}: unknown schema reference ${schema.$ref}`);
+        return;
+      }
+      this.check(value, target, root, at, errors);
+      return;
+    }
+
+    if (schema.anyOf) {
+      const attempts = schema.anyOf.map(option => {
+        const optionErrors: string[] = [];
+        this.check(value, option, root, at, optionErrors);
+        return optionErrors;
+      });
+      if (!attempts.some(attempt => attempt.length === 0)) {
+        // Report the closest match rather than every alternative; a plain type mismatch is the least close
+        const typeMismatch = (attempt: string[]) => attempt.length === 1 && attempt[0].startsWith(`${at}: expected `);
+        const candidates = attempts.some(a => !typeMismatch(a)) ? attempts.filter(a => !typeMismatch(a)) : attempts;
+        errors.push(...candidates.reduce((best, attempt) => attempt.length < best.length ? attempt : best));
+      }
+      return;
+    }
+
+    if (schema.type && !this.hasType(value, schema.type)) {
+      errors.push(`${at}: expected ${schema.type}, got ${value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value}`);
+      return;
+    }
+
+    if ('const' in schema && value !== schema.const) {
+      errors.push(`${at}: expected ${JSON.stringify(schema.const)}, got ${JSON.stringify(value)}`);
+    }
+
+    if (schema.enum && !schema.enum.includes(value)) {
+      errors.push(`${at}: ${JSON.stringify(value)} is not one of ${schema.enum.map(v => JSON.stringify(v)).join(', ')}`);
+    }
+
+    if (Array.isArray(value) && schema.items) {
+      value.forEach((item, index) => this.check(item, schema.items!, root, `${at}[${index}]`, errors));
+    }
+
+    if (schema.type === 'object' && value && typeof value === 'object') {
+      const record = value as Record<string, unknown>;
+      for (const name of schema.required ?? []) {
+        if (!(name in record)) {
+          errors.push(`${at}: missing required property '${name}'`);
+        }
+      }
+
+      for (const [name, propertyValue] of Object.entries(record)) {
+        const propertySchema = schema.properties?.[name];
+        if (propertySchema) {
+          this.check(propertyValue, propertySchema, root, `${at}.${name}`, errors);
+        } else if (schema.additionalProperties === false) {
+          errors.push(`${at}: unexpected property '${name}'`);
+        } else if (typeof schema.additionalProperties === 'object') {
+          this.check(propertyValue, schema.additionalProperties, root, `${at}.${name}`, errors);
+        }
+      }
+    }
+  }
+
+  private static hasType(value: unknown, type: string): boolean {
+    switch (type) {
+      case 'array': return Array.isArray(value);
+      case 'object': return typeof value === 'object' && value !== null && !Array.isArray(value);
+      case 'null': return value === null;
+      case 'integer': return Number.isInteger(value);
+      default: return typeof value === type;
+    }
+  }
+
+  /**
+   * The types file next to this module: types.ts from source, types.d.ts from dist
+   */
+  private static findTypesFile(): string {
+    const dir = path.dirname(fileURLToPath(import.meta.url));
+    const typesFile = ['types.ts', 'types.d.ts']
+      .map(name => path.join(dir, name))
+      .find(file => fs.existsSync(file));
+
+    if (!typesFile) {
+      throw new Error(`Cannot generate the output schema: types.ts / types.d.ts not found in ${dir}`);
+    }
+    return typesFile;
+  }
+
+  /**
+   * Register a named interface or type alias from types.ts under definitions
+   */
+  private static toDefinition(
+    type: ts.Type,
+    name: string,
+    checker: ts.TypeChecker,
+    sourceFile: ts.SourceFile,
+    definitions: Record<string, JsonSchema>
+  ): JsonSchema {
+    if (!definitions[name]) {
+      definitions[name] = {}; // placeholder for recursive types (ComponentDoc.children)
+      const symbol = type.aliasSymbol ?? type.getSymbol();
+      const description = symbol ? ts.displayPartsToString(symbol.getDocumentationComment(checker)) : '';
+      definitions[name] = {
+        ...(description ? { description } : {}),
+        ...this.toObjectSchema(type, checker, sourceFile, definitions),
+      };
+    }
+    return { $ref: `#/definitions/${name}` };
+  }
+
+  private static toSchema(
+    type: ts.Type,
+    checker: ts.TypeChecker,
+    sourceFile: ts.SourceFile,
+    definitions: Record<string, JsonSchema>
+  ): JsonSchema {
+    if (type.flags & (ts.TypeFlags.Any | ts.TypeFlags.Unknown)) {
+      return {};
+    }
+    if (type.flags & ts.TypeFlags.String) {
+      return { type: 'string' };
+    }
+    if (type.flags & ts.TypeFlags.Number) {
+      return { type: 'number' };
+    }
+    if (type.flags & ts.TypeFlags.Boolean) {
+      return { type: 'boolean' };
+    }
+    if (type.flags & ts.TypeFlags.Null) {
+      return { type: 'null' };
+    }
+    if (type.isStringLiteral() || type.isNumberLiteral()) {
+      return { const: type.value };
+    }
+    if (type.flags & ts.TypeFlags.BooleanLiteral) {
+      return { const: checker.typeToString(type) === 'true' };
+    }
+
+    if (type.isUnion()) {
+      return this.toUnionSchema(type.types, checker, sourceFile, definitions);
+    }
+
+    if (checker.isArrayType(type)) {
+      const [itemType] = checker.getTypeArguments(type as ts.TypeReference);
+      return { type: 'array', items: this.toSchema(itemType, checker, sourceFile, definitions) };
+    }
+
+    // Interfaces and type aliases declared in types.ts become shared definitions
+    const symbol = type.aliasSymbol ?? type.getSymbol();
+    const declaredHere = symbol?.declarations?.some(d => d.getSourceFile() === sourceFile &&
+      (ts.isInterfaceDeclaration(d) || ts.isTypeAliasDeclaration(d)));
+    if (symbol && declaredHere) {
+      return this.toDefinition(type, symbol.name, checker, sourceFile, definitions);
+    }
+
+    return this.toObjectSchema(type, checker, sourceFile, definitions);
+  }
+
+  private static toUnionSchema(
+    members: ts.Type[],
+    checker: ts.TypeChecker,
+    sourceFile: ts.SourceFile,
+    definitions: Record<string, JsonSchema>
+  ): JsonSchema {
+    const present = members.filter(member => !(member.flags & (ts.TypeFlags.Undefined | ts.TypeFlags.Void)));
+    const hasBoolean = present.some(m => checker.typeToString(m) === 'true') && present.some(m => checker.typeToString(m) === 'false');
+
+    const literals: unknown[] = [];
+    const options: JsonSchema[] = hasBoolean ? [{ type: 'boolean' }] : [];
+
+    for (const member of present) {
+      if (hasBoolean && member.flags & ts.TypeFlags.BooleanLiteral) {
+        continue;
+      }
+      if (member.isStringLiteral() || member.isNumberLiteral()) {
+        literals.push(member.value);
+      } else {
+        options.push(this.toSchema(member, checker, sourceFile, definitions));
+      }
+    }
+
+    if (literals.length > 0) {
+      options.unshift({ enum: literals });
+    }
+    return options.length === 1 ? options[0] : { anyOf: options };
+  }
+
+  private static toObjectSchema(
+    type: ts.Type,
+    checker: ts.TypeChecker,
+    sourceFile: ts.SourceFile,
+    definitions: Record<string, JsonSchema>
+  ): JsonSchema {
+    const properties: Record<string, JsonSchema> = {};
+    const required: string[] = [];
+
+    for (const property of checker.getPropertiesOfType(type)) {
+      const declaration = property.valueDeclaration ?? property.declarations?.[0];
+      const propertyType = declaration
+        ? checker.getTypeOfSymbolAtLocation(property, declaration)
+        : checker.getDeclaredTypeOfSymbol(property);
+      const description = ts.displayPartsToString(property.getDocumentationComment(checker));
+
+      properties[property.name] = {
+        ...this.toSchema(propertyType, checker, sourceFile, definitions),
+        ...(description ? { description } : {}),
+      };
+      if (!(property.flags & ts.SymbolFlags.Optional)) {
+        required.push(property.name);
+      }
+    }
+
+    // Record<string, T> and index signatures
+    const index = checker.getIndexInfosOfType(type).find(info => info.keyType.flags & ts.TypeFlags.String);
+
+    return {
+      type: 'object',
+      properties,
+      ...(required.length > 0 ? { required } : {}),
+      additionalProperties: index ? this.toSchema(index.type, checker, sourceFile, definitions) : false,
+    };
+  }
+}
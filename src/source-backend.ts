@@ -0,0 +1,175 @@
+/**
+ * Input backends: where the original TypeScript of each runtime module comes from
+ *
+ * Modules are addressed by their path without extension,
+ * e.g. <library>/components/basic/button/button.props
+ */
+
+import * as path from 'path';
+import { LibraryFileSystem } from './library-fs.js';
+import { SourceExtractor } from './source-extractor.js';
+
+export type InputBackendKind = 'sourcemap' | 'typescript';
+
+export interface ModuleSource {
+  /** Original TypeScript source */
+  content: string;
+  /** Path the source is served under for type checking (module path + .ts/.tsx/.d.ts) */
+  fileName: string;
+  /** Read from a .d.ts because the original source is not available (no defaults or bodies) */
+  declarationOnly?: boolean;
+}
+
+export interface SourceBackend {
+  readonly kind: InputBackendKind;
+  /** Files of the library (a folder or an in-memory tarball) */
+  readonly fileSystem: LibraryFileSystem;
+
+  /**
+   * Module a file holds the source of ('button.props.js.map' -> 'button.props'), or null
+   */
+  getModuleName(fileName: string): string | null;
+
+  /**
+   * Read the original TypeScript of a module
+   */
+  readModule(modulePath: string): ModuleSource | null;
+}
+
+/**
+ * Published npm package: sources embedded in .js.map files (sourcesContent),
+ * falling back to the .d.ts declarations when the original is not embedded
+ */
+export class SourceMapBackend implements SourceBackend {
+  readonly kind = 'sourcemap';
+  readonly fileSystem: LibraryFileSystem;
+  private declarationOnlyModules = new Set<string>();
+
+  constructor(fileSystem: LibraryFileSystem) {
+    this.fileSystem = fileSystem;
+  }
+
+  getModuleName(fileName: string): string | null {
+    for (const ext of ['.js.map', '.d.ts']) {
+      if (fileName.endsWith(ext)) {
+        return fileName.slice(0, -ext.length);
+      }
+    }
+    return null;
+  }
+
+  readModule(modulePath: string): ModuleSource | null {
+    const mapFilePath = `${modulePath}.js.map`;
+    const declarationPath = `${modulePath}.d.ts`;
+
+    if (this.fileSystem.exists(mapFilePath)) {
+      const original = SourceExtractor.findOriginalSource(mapFilePath, this.fileSystem);
+
+      if (original?.content != null) {
+        const ext = path.extname(original.source.split(/[?#]/)[0]);
+        return { content: original.content, fileName: `${modulePath}${ext}` };
+      }
+
+      if (original && !this.fileSystem.exists(declarationPath)) {
+        console.error(`Source content for ${original.source} is stripped in ${mapFilePath}`);
+      }
+    }
+
+    if (this.fileSystem.exists(declarationPath)) {
+      if (!this.declarationOnlyModules.has(modulePath)) {
+        this.declarationOnlyModules.add(modulePath);
+        console.warn(`No original source for ${modulePath}; documenting from ${path.basename(declarationPath)} (declaration-only)`);
+      }
+      return {
+        content: this.fileSystem.readFile(declarationPath),
+        fileName: declarationPath,
+        declarationOnly: true,
+      };
+    }
+
+    return null;
+  }
+}
+
+/**
+ * Source checkout of the runtime: .ts/.tsx files read directly
+ */
+export class TypeScriptSourceBackend implements SourceBackend {
+  readonly kind = 'typescript';
+  readonly fileSystem: LibraryFileSystem;
+
+  constructor(fileSystem: LibraryFileSystem) {
+    this.fileSystem = fileSystem;
+  }
+
+  getModuleName(fileName: string): string | null {
+    if (fileName.endsWith('.d.ts')) {
+      return null;
+    }
+    const match = fileName.match(/^(.*)\.tsx?$/);
+    return match ? match[1] : null;
+  }
+
+  readModule(modulePath: string): ModuleSource | null {
+    for (const ext of ['.ts', '.tsx']) {
+      const fileName = `${modulePath}${ext}`;
+      if (this.fileSystem.exists(fileName)) {
+        return { content: this.fileSystem.readFile(fileName), fileName };
+      }
+    }
+    return null;
+  }
+}
+
+/**
+ * Create the backend for a CLI/config input kind
+ */
+export function createSourceBackend(kind: InputBackendKind, fileSystem: LibraryFileSystem): SourceBackend {
+  switch (kind) {
+    case 'sourcemap':
+      return new SourceMapBackend(fileSystem);
+    case 'typescript':
+      return new TypeScriptSourceBackend(fileSystem);
+    default:
+      throw new Error(`Unknown input backend: ${kind}`);
+  }
+}
+
+/**
+ * Module names (without extension) of all modules in a directory
+ */
+export function listModules(backend: SourceBackend, dir: string): string[] {
+  const modules = backend.fileSystem.readDir(dir)
+    .filter(entry => entry.isFile())
+    .map(entry => backend.getModuleName(entry.name))
+    .filter((name): name is string => name !== null);
+  // A module may be backed by several files (e.g. .js.map and .d.ts)
+  return [...new Set(modules)];
+}
+
+/**
+ * Extract the props, component and styles sources of a component directory
+ */
+export function extractComponentSources(backend: SourceBackend, componentDir: string): {
+  props?: ModuleSource;
+  component?: ModuleSource;
+  styles?: ModuleSource;
+} {
+  const sources: {
+    props?: ModuleSource;
+    component?: ModuleSource;
+    styles?: ModuleSource;
+  } = {};
+
+  const modules = listModules(backend, componentDir);
+
+  for (const kind of ['props', 'component', 'styles'] as const) {
+    const moduleName = modules.find(m => m.endsWith(`.${kind}`));
+    if (moduleName) {
+      const source = backend.readModule(path.join(componentDir, moduleName));
+      if (source) sources[kind] = source;
+    }
+  }
+
+  return sources;
+}
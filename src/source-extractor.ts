@@ -2,101 +2,94 @@
  * Extracts TypeScript source code from JavaScript source map files
  */
 
-import * as fs from 'fs';
-import * as path from 'path';
+import { DiskFileSystem, LibraryFileSystem } from './library-fs.js';
 import { SourceMapContent } from './types.js';
 
+const diskFileSystem = new DiskFileSystem();
+
+export interface EmbeddedSource {
+  index: number;
+  /** Path as listed in the map's `sources` */
+  source: string;
+  /** Embedded original, or null when sourcesContent was stripped */
+  content: string | null;
+}
+
 export class SourceExtractor {
+  /** Parsed maps per library, so each map is read once per run */
+  private static sourceMapCache = new WeakMap<LibraryFileSystem, Map<string, SourceMapContent | null>>();
+
   /**
    * Read and parse a .js.map file
    */
-  static readSourceMap(mapFilePath: string): SourceMapContent | null {
+  static readSourceMap(mapFilePath: string, fileSystem: LibraryFileSystem = diskFileSystem): SourceMapContent | null {
+    let cache = this.sourceMapCache.get(fileSystem);
+    if (!cache) {
+      cache = new Map();
+      this.sourceMapCache.set(fileSystem, cache);
+    }
+
+    if (cache.has(mapFilePath)) {
+      return cache.get(mapFilePath) ?? null;
+    }
+
+    let sourceMap: SourceMapContent | null = null;
     try {
-      const content = fs.readFileSync(mapFilePath, 'utf-8');
-      return JSON.parse(content) as SourceMapContent;
+      const content = fileSystem.readFile(mapFilePath);
+      sourceMap = JSON.parse(content) as SourceMapContent;
     } catch (error) {
       console.error(`Error reading source map ${mapFilePath}:`, error);
-      return null;
     }
+
+    cache.set(mapFilePath, sourceMap);
+    return sourceMap;
   }
 
   /**
-   * Extract TypeScript source content from source map
+   * List every source embedded in a source map
    */
-  static extractSourceContent(mapFilePath: string, sourceIndex: number = 0): string | null {
-    const sourceMap = this.readSourceMap(mapFilePath);
+  static getEmbeddedSources(mapFilePath: string, fileSystem: LibraryFileSystem = diskFileSystem): EmbeddedSource[] {
+    const sourceMap = this.readSourceMap(mapFilePath, fileSystem);
 
-    if (!sourceMap) {
-      return null;
-    }
-
-    if (!sourceMap.sourcesContent || sourceMap.sourcesContent.length === 0) {
-      console.error(`No source content found in ${mapFilePath}`);
-      return null;
+    if (!sourceMap || !sourceMap.sources) {
+      return [];
     }
 
-    if (sourceIndex >= sourceMap.sourcesContent.length) {
-      console.error(`Source index ${sourceIndex} out of bounds for ${mapFilePath}`);
-      return null;
-    }
-
-    return sourceMap.sourcesContent[sourceIndex];
+    return sourceMap.sources.map((source, index) => ({
+      index,
+      source,
+      content: sourceMap.sourcesContent?.[index] ?? null,
+    }));
   }
 
   /**
-   * Get the original TypeScript filename from source map
+   * Find the original TypeScript file a map was generated from, by file name
+   * e.g. button.props.js.map -> the entry whose source is .../button.props.ts(x)
+   * Bundled maps may also list helpers or several originals, so index 0 is not reliable.
    */
-  static getSourceFileName(mapFilePath: string, sourceIndex: number = 0): string | null {
-    const sourceMap = this.readSourceMap(mapFilePath);
-
-    if (!sourceMap || !sourceMap.sources || sourceMap.sources.length === 0) {
-      return null;
-    }
-
-    if (sourceIndex >= sourceMap.sources.length) {
+  static findOriginalSource(mapFilePath: string, fileSystem: LibraryFileSystem = diskFileSystem): EmbeddedSource | null {
+    const sources = this.getEmbeddedSources(mapFilePath, fileSystem);
+    const moduleName = this.baseName(mapFilePath).replace(/\.js\.map$/, '');
+
+    const match = sources.find(s => this.baseName(s.source).replace(/\.tsx?$/, '') === moduleName &&
+      /\.tsx?$/.test(this.baseName(s.source)));
+
+    if (!match) {
+      if (sources.length > 0) {
+        console.error(
+          `No original source matching ${moduleName}.ts(x) in ${mapFilePath} (sources: ${sources.map(s => s.source).join(', ')})`
+        );
+      }
       return null;
     }
 
-    return sourceMap.sources[sourceIndex];
+    return match;
   }
 
   /**
-   * Extract all source files from a component directory
+   * Last path segment of a path or source URL (webpack://, query strings)
    */
-  static extractComponentSources(componentDir: string): {
-    props?: string;
-    component?: string;
-    styles?: string;
-  } {
-    const sources: {
-      props?: string;
-      component?: string;
-      styles?: string;
-    } = {};
-
-    const files = fs.readdirSync(componentDir);
-
-    // Extract props
-    const propsMap = files.find(f => f.endsWith('.props.js.map'));
-    if (propsMap) {
-      const content = this.extractSourceContent(path.join(componentDir, propsMap));
-      if (content) sources.props = content;
-    }
-
-    // Extract component
-    const componentMap = files.find(f => f.endsWith('.component.js.map'));
-    if (componentMap) {
-      const content = this.extractSourceContent(path.join(componentDir, componentMap));
-      if (content) sources.component = content;
-    }
-
-    // Extract styles
-    const stylesMap = files.find(f => f.endsWith('.styles.js.map'));
-    if (stylesMap) {
-      const content = this.extractSourceContent(path.join(componentDir, stylesMap));
-      if (content) sources.styles = content;
-    }
-
-    return sources;
+  private static baseName(filePath: string): string {
+    return filePath.split(/[?#]/)[0].split(/[\\/]/).pop() || '';
   }
 }
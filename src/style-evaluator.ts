@@ -0,0 +1,413 @@
+/**
+ * Static evaluator for style definitions (addStyle / defineStyles arguments)
+ */
+
+import * as ts from 'typescript';
+import { ThemeVariableRef } from './types.js';
+
+export type ThemeDefault = NonNullable<ThemeVariableRef['defaultValue']> | null;
+
+/**
+ * Marker for an expression that cannot be evaluated statically
+ */
+export interface UnresolvedValue {
+  expression: string;
+}
+
+export type StyleValue =
+  | string
+  | number
+  | boolean
+  | null
+  | ThemeVariableRef
+  | UnresolvedValue
+  | StyleValue[]
+  | { [key: string]: StyleValue };
+
+const UNRESOLVED = Symbol('unresolved');
+
+export class StyleEvaluator {
+  private sourceFile: ts.SourceFile;
+  private themeDefaults: Map<string, ThemeDefault>;
+  private declarations = new Map<string, ts.Expression>();
+  private functions = new Map<string, ts.FunctionLikeDeclaration>();
+  private scopes: Map<string, StyleValue>[] = [];
+  private themeParams = new Set<string>(['themeVariables']);
+  private evaluating = new Set<string>();
+
+  /**
+   * @param sourceFile - Parsed styles file
+   * @param themeDefaults - Default values of theme variables, by name
+   */
+  constructor(sourceFile: ts.SourceFile, themeDefaults: Map<string, ThemeDefault> = new Map()) {
+    this.sourceFile = sourceFile;
+    this.themeDefaults = themeDefaults;
+    this.collectDeclarations(sourceFile);
+  }
+
+  /**
+   * Index variable initializers by name and find the theme variables parameter
+   * of registerStyle((themeVariables, addStyle) => ...) callbacks.
+   * Style files are small and flat, so a file-wide name table is enough.
+   */
+  private collectDeclarations(node: ts.Node): void {
+    if (ts.isVariableDeclaration(node) && ts.isIdentifier(node.name) && node.initializer &&
+        !this.declarations.has(node.name.text)) {
+      this.declarations.set(node.name.text, node.initializer);
+    }
+
+    // Helper functions, e.g. const getClassName = (suffix) => DEFAULT_CLASS + '-' + suffix
+    if (ts.isFunctionDeclaration(node) && node.name && !this.functions.has(node.name.text)) {
+      this.functions.set(node.name.text, node);
+    }
+    if (ts.isVariableDeclaration(node) && ts.isIdentifier(node.name) && node.initializer &&
+        (ts.isArrowFunction(node.initializer) || ts.isFunctionExpression(node.initializer)) &&
+        !this.functions.has(node.name.text)) {
+      this.functions.set(node.name.text, node.initializer);
+    }
+
+    // Class properties are reachable as this.name (e.g. in the ThemeVariables class)
+    if (ts.isPropertyDeclaration(node) && ts.isIdentifier(node.name) && node.initializer) {
+      this.declarations.set(`this.${node.name.text}`, node.initializer);
+    }
+
+    if (ts.isCallExpression(node) && ts.isPropertyAccessExpression(node.expression) &&
+        node.expression.name.text === 'registerStyle') {
+      const callback = node.arguments[0];
+      if (callback && (ts.isArrowFunction(callback) || ts.isFunctionExpression(callback))) {
+        const themeParam = callback.parameters[0];
+        if (themeParam && ts.isIdentifier(themeParam.name)) {
+          this.themeParams.add(themeParam.name.text);
+        }
+      }
+    }
+
+    ts.forEachChild(node, child => this.collectDeclarations(child));
+  }
+
+  /**
+   * Default values of all class properties with a statically known primitive value
+   * (used to read the runtime's ThemeVariables class)
+   */
+  evaluateClassProperties(): Map<string, ThemeDefault> {
+    const values = new Map<string, ThemeDefault>();
+
+    for (const key of this.declarations.keys()) {
+      if (!key.startsWith('this.')) continue;
+
+      const value = this.evaluateIdentifier(key);
+      if (value === null || typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+        values.set(key.substring('this.'.length), value);
+      }
+    }
+
+    return values;
+  }
+
+  /**
+   * Evaluate an expression to a plain value; unresolvable parts become { expression }
+   * @param bindings - Values of names in scope (e.g. a forEach callback parameter)
+   */
+  evaluate(expr: ts.Expression, bindings?: Map<string, StyleValue>): StyleValue {
+    const value = this.withScope(bindings, () => this.evaluateExpression(expr));
+    return value === UNRESOLVED ? { expression: expr.getText(this.sourceFile) } : value;
+  }
+
+  /**
+   * Statically determine a string (e.g. a class name), or undefined if it cannot be resolved
+   */
+  evaluateString(expr: ts.Expression, bindings?: Map<string, StyleValue>): string | undefined {
+    const value = this.withScope(bindings, () => this.evaluateExpression(expr));
+    return typeof value === 'string' ? value : undefined;
+  }
+
+  /**
+   * All sets of bindings under which a node is executed when it sits inside
+   * array iteration callbacks, e.g. ['primary', 'danger'].forEach(type => addStyle(`btn-${type}`, ...))
+   */
+  getIterationBindings(node: ts.Node): Map<string, StyleValue>[] {
+    const loops: Array<{ callback: ts.FunctionLikeDeclaration; array: ts.Expression }> = [];
+
+    for (let current = node.parent; current; current = current.parent) {
+      const call = current.parent;
+      if ((ts.isArrowFunction(current) || ts.isFunctionExpression(current)) && call &&
+          ts.isCallExpression(call) && call.arguments[0] === current &&
+          ts.isPropertyAccessExpression(call.expression) &&
+          ['forEach', 'map'].includes(call.expression.name.text)) {
+        loops.unshift({ callback: current, array: call.expression.expression });
+      }
+    }
+
+    let bindingSets: Map<string, StyleValue>[] = [new Map()];
+    for (const { callback, array } of loops) {
+      const [itemParam, indexParam] = callback.parameters;
+      const next: Map<string, StyleValue>[] = [];
+
+      for (const bindings of bindingSets) {
+        const items = this.withScope(bindings, () => this.evaluateExpression(array));
+        if (!Array.isArray(items) || !itemParam || !ts.isIdentifier(itemParam.name)) {
+          next.push(bindings);
+          continue;
+        }
+
+        items.forEach((item, index) => {
+          const itemBindings = new Map(bindings).set((itemParam.name as ts.Identifier).text, item);
+          if (indexParam && ts.isIdentifier(indexParam.name)) {
+            itemBindings.set(indexParam.name.text, index);
+          }
+          next.push(itemBindings);
+        });
+      }
+
+      bindingSets = next;
+    }
+
+    return bindingSets;
+  }
+
+  private withScope<T>(bindings: Map<string, StyleValue> | undefined, fn: () => T): T {
+    if (!bindings) {
+      return fn();
+    }
+
+    this.scopes.push(bindings);
+    try {
+      return fn();
+    } finally {
+      this.scopes.pop();
+    }
+  }
+
+  private evaluateExpression(expr: ts.Expression): StyleValue | typeof UNRESOLVED {
+    if (ts.isParenthesizedExpression(expr) || ts.isAsExpression(expr) ||
+        ts.isSatisfiesExpression(expr) || ts.isNonNullExpression(expr)) {
+      return this.evaluateExpression(expr.expression);
+    }
+
+    if (ts.isStringLiteralLike(expr)) return expr.text;
+    if (ts.isNumericLiteral(expr)) return Number(expr.text);
+    if (expr.kind === ts.SyntaxKind.TrueKeyword) return true;
+    if (expr.kind === ts.SyntaxKind.FalseKeyword) return false;
+    if (expr.kind === ts.SyntaxKind.NullKeyword) return null;
+
+    // `${DEFAULT_CLASS}-rtl`
+    if (ts.isTemplateExpression(expr)) {
+      let result = expr.head.text;
+      for (const span of expr.templateSpans) {
+        const value = this.evaluateExpression(span.expression);
+        if (typeof value !== 'string' && typeof value !== 'number' && typeof value !== 'boolean') {
+          return UNRESOLVED;
+        }
+        result += String(value) + span.literal.text;
+      }
+      return result;
+    }
+
+    if (ts.isPrefixUnaryExpression(expr) && expr.operator === ts.SyntaxKind.MinusToken) {
+      const operand = this.evaluateExpression(expr.operand);
+      return typeof operand === 'number' ? -operand : UNRESOLVED;
+    }
+
+    if (ts.isObjectLiteralExpression(expr)) {
+      return this.evaluateObject(expr);
+    }
+
+    if (ts.isArrayLiteralExpression(expr)) {
+      return expr.elements.map(element => this.evaluate(element));
+    }
+
+    if (ts.isIdentifier(expr)) {
+      return this.evaluateIdentifier(expr.text);
+    }
+
+    if (ts.isPropertyAccessExpression(expr)) {
+      // themeVariables.primaryColor -> reference with the theme's default
+      if (ts.isIdentifier(expr.expression) && this.themeParams.has(expr.expression.text)) {
+        return this.themeVariableRef(expr.name.text);
+      }
+
+      if (expr.expression.kind === ts.SyntaxKind.ThisKeyword) {
+        return this.evaluateIdentifier(`this.${expr.name.text}`);
+      }
+
+      const target = this.evaluateExpression(expr.expression);
+      if (this.isPlainObject(target) && expr.name.text in target) {
+        return target[expr.name.text];
+      }
+      return UNRESOLVED;
+    }
+
+    if (ts.isCallExpression(expr)) {
+      return this.evaluateCall(expr);
+    }
+
+    if (ts.isBinaryExpression(expr)) {
+      const left = this.evaluateExpression(expr.left);
+      const right = this.evaluateExpression(expr.right);
+      if (left === UNRESOLVED || right === UNRESOLVED) return UNRESOLVED;
+
+      if (expr.operatorToken.kind === ts.SyntaxKind.PlusToken &&
+          (typeof left === 'string' || typeof left === 'number') &&
+          (typeof right === 'string' || typeof right === 'number')) {
+        return (left as string) + (right as string);
+      }
+
+      if (typeof left === 'number' && typeof right === 'number') {
+        switch (expr.operatorToken.kind) {
+          case ts.SyntaxKind.MinusToken: return left - right;
+          case ts.SyntaxKind.AsteriskToken: return left * right;
+          case ts.SyntaxKind.SlashToken: return left / right;
+        }
+      }
+      return UNRESOLVED;
+    }
+
+    return UNRESOLVED;
+  }
+
+  private evaluateCall(expr: ts.CallExpression): StyleValue | typeof UNRESOLVED {
+    const callee = expr.expression;
+
+    // defineStyles({...}) is an identity helper for typing
+    if (ts.isIdentifier(callee) && callee.text === 'defineStyles' && expr.arguments.length > 0) {
+      return this.evaluateExpression(expr.arguments[0]);
+    }
+
+    // Object.keys(...) / Object.values(...)
+    if (ts.isPropertyAccessExpression(callee) && ts.isIdentifier(callee.expression) &&
+        callee.expression.text === 'Object' && expr.arguments.length === 1) {
+      const target = this.evaluateExpression(expr.arguments[0]);
+      if (!this.isPlainObject(target)) return UNRESOLVED;
+      if (callee.name.text === 'keys') return Object.keys(target);
+      if (callee.name.text === 'values') return Object.values(target);
+      return UNRESOLVED;
+    }
+
+    // Local helper functions with a single returned expression
+    if (ts.isIdentifier(callee)) {
+      const fn = this.functions.get(callee.text);
+      const body = fn && this.getReturnedExpression(fn);
+      if (!fn || !body || this.evaluating.has(`${callee.text}()`)) {
+        return UNRESOLVED;
+      }
+
+      const bindings = new Map<string, StyleValue>();
+      for (const [index, parameter] of fn.parameters.entries()) {
+        if (!ts.isIdentifier(parameter.name)) return UNRESOLVED;
+
+        const arg = expr.arguments[index] ?? parameter.initializer;
+        const value = arg ? this.evaluateExpression(arg) : null;
+        if (value === UNRESOLVED) return UNRESOLVED;
+        bindings.set(parameter.name.text, value);
+      }
+
+      this.evaluating.add(`${callee.text}()`);
+      try {
+        // Only the parameters are visible inside the helper, not the caller's bindings
+        const callerScopes = this.scopes;
+        this.scopes = [bindings];
+        try {
+          return this.evaluateExpression(body);
+        } finally {
+          this.scopes = callerScopes;
+        }
+      } finally {
+        this.evaluating.delete(`${callee.text}()`);
+      }
+    }
+
+    return UNRESOLVED;
+  }
+
+  /**
+   * The expression a function returns, if its body is a single expression or a single return
+   */
+  private getReturnedExpression(fn: ts.FunctionLikeDeclaration): ts.Expression | undefined {
+    if (!fn.body) return undefined;
+    if (!ts.isBlock(fn.body)) return fn.body;
+
+    const [statement, ...rest] = fn.body.statements;
+    if (rest.length === 0 && statement && ts.isReturnStatement(statement)) {
+      return statement.expression;
+    }
+    return undefined;
+  }
+
+  private evaluateObject(expr: ts.ObjectLiteralExpression): StyleValue {
+    const result: { [key: string]: StyleValue } = {};
+
+    for (const property of expr.properties) {
+      if (ts.isSpreadAssignment(property)) {
+        const spread = this.evaluateExpression(property.expression);
+        if (this.isPlainObject(spread)) {
+          Object.assign(result, spread);
+        }
+        continue;
+      }
+
+      if (ts.isShorthandPropertyAssignment(property)) {
+        result[property.name.text] = this.toValue(this.evaluateIdentifier(property.name.text), property.name);
+        continue;
+      }
+
+      if (ts.isPropertyAssignment(property)) {
+        const key = this.propertyKey(property.name);
+        if (key !== undefined) {
+          result[key] = this.evaluate(property.initializer);
+        }
+      }
+    }
+
+    return result;
+  }
+
+  private evaluateIdentifier(name: string): StyleValue | typeof UNRESOLVED {
+    if (name === 'undefined') return null;
+
+    for (let i = this.scopes.length - 1; i >= 0; i--) {
+      if (this.scopes[i].has(name)) {
+        return this.scopes[i].get(name)!;
+      }
+    }
+
+    const initializer = this.declarations.get(name);
+    if (!initializer || this.evaluating.has(name)) {
+      return UNRESOLVED;
+    }
+
+    this.evaluating.add(name);
+    try {
+      return this.evaluateExpression(initializer);
+    } finally {
+      this.evaluating.delete(name);
+    }
+  }
+
+  private propertyKey(name: ts.PropertyName): string | undefined {
+    if (ts.isIdentifier(name) || ts.isStringLiteralLike(name) || ts.isNumericLiteral(name)) {
+      return name.text;
+    }
+    if (ts.isComputedPropertyName(name)) {
+      const key = this.evaluateExpression(name.expression);
+      return typeof key === 'string' || typeof key === 'number' ? String(key) : undefined;
+    }
+    return undefined;
+  }
+
+  private themeVariableRef(name: string): ThemeVariableRef {
+    const ref: ThemeVariableRef = { themeVariable: name };
+    if (this.themeDefaults.has(name)) {
+      ref.defaultValue = this.themeDefaults.get(name);
+    }
+    return ref;
+  }
+
+  private toValue(value: StyleValue | typeof UNRESOLVED, node: ts.Node): StyleValue {
+    return value === UNRESOLVED ? { expression: node.getText(this.sourceFile) } : value;
+  }
+
+  private isPlainObject(value: StyleValue | typeof UNRESOLVED): value is { [key: string]: StyleValue } {
+    return typeof value === 'object' && value !== null && !Array.isArray(value) &&
+      !('themeVariable' in value) && !('expression' in value);
+  }
+}
@@ -3,31 +3,131 @@
  */
 
 import * as ts from 'typescript';
-import { PropInfo, MethodInfo, ParameterInfo } from './types.js';
+import { PropInfo, MethodInfo, ParameterInfo, JSDocInfo, TypeDoc, DeprecationInfo } from './types.js';
+import { StyleEvaluator, StyleValue, ThemeDefault } from './style-evaluator.js';
+
+/** Parsed sources kept for reuse; parent Props/component modules are parsed once per thread */
+const MAX_PARSED_SOURCES = 256;
 
 export class TypeScriptParser {
+  private static parsedSources = new Map<string, ts.SourceFile>();
+
   /**
-   * Parse TypeScript source code and create AST
+   * Parse TypeScript source code and create AST.
+   * ASTs are cached by file name and content, so the extract* calls on one module share a parse.
    */
   static createSourceFile(sourceCode: string, fileName: string = 'temp.tsx'): ts.SourceFile {
-    return ts.createSourceFile(
+    const key = `${fileName}\u0000${sourceCode}`;
+    const cached = this.parsedSources.get(key);
+    if (cached) {
+      // Move to the end so the least recently used source is evicted first
+      this.parsedSources.delete(key);
+      this.parsedSources.set(key, cached);
+      return cached;
+    }
+
+    const sourceFile = ts.createSourceFile(
       fileName,
       sourceCode,
       ts.ScriptTarget.Latest,
       true
     );
+
+    this.parsedSources.set(key, sourceFile);
+    if (this.parsedSources.size > MAX_PARSED_SOURCES) {
+      this.parsedSources.delete(this.parsedSources.keys().next().value!);
+    }
+    return sourceFile;
+  }
+
+  /**
+   * Extract the JSDoc block attached to a node (summary and supported tags)
+   */
+  static extractJSDoc(node: ts.Node): JSDocInfo | null {
+    const jsDocs = ts.getJSDocCommentsAndTags(node).filter(ts.isJSDoc);
+    if (jsDocs.length === 0) {
+      return null;
+    }
+
+    // The block closest to the declaration wins
+    const jsDoc = jsDocs[jsDocs.length - 1];
+    const info: JSDocInfo = { params: {}, examples: [] };
+
+    const summary = ts.getTextOfJSDocComment(jsDoc.comment)?.trim();
+    if (summary) {
+      info.description = summary;
+    }
+
+    for (const tag of jsDoc.tags || []) {
+      const comment = ts.getTextOfJSDocComment(tag.comment)?.trim() || '';
+      // Leading '- ' is a common separator between the param name and its text
+      const text = comment.replace(/^-\s*/, '');
+
+      switch (tag.tagName.text) {
+        case 'param':
+          if (ts.isJSDocParameterTag(tag) && text) {
+            info.params[tag.name.getText()] = text;
+          }
+          break;
+        case 'returns':
+        case 'return':
+          if (text) info.returns = text;
+          break;
+        case 'default':
+        case 'defaultValue':
+          if (text) info.defaultValue = text;
+          break;
+        case 'example':
+          if (comment) info.examples.push(comment);
+          break;
+        case 'deprecated':
+          info.deprecated = text;
+          break;
+        case 'since':
+          if (text) info.since = text;
+          break;
+      }
+    }
+
+    return info;
+  }
+
+  /**
+   * Turn @deprecated tag text into a DeprecationInfo, picking up the replacement from
+   * "use X instead", "replaced by X" or {@link X}
+   */
+  static toDeprecation(text: string | undefined): DeprecationInfo | undefined {
+    if (text === undefined) {
+      return undefined;
+    }
+
+    const message = text.replace(/\{@link\s+([^}|\s]+)[^}]*\}/g, '$1').trim();
+    const replacement = text.match(/\{@link\s+([^}|\s]+)/)?.[1] ??
+      message.match(/\b(?:use|replaced by|see)\s+`?([\w.-]+?)`?(?:\(\))?(?:\s+instead)?[\s.,;]*$/i)?.[1];
+
+    return {
+      message: message || undefined,
+      replacement,
+      source: 'jsdoc',
+    };
   }
 
   /**
-   * Extract props from a Props class
+   * Extract props from a Props class.
+   * When a file declares several Props classes, the component's own class is chosen by
+   * name (preferredClassName, ignoring case: a progressbar folder gives WmProgressbarProps
+   * for WmProgressBarProps), then default export, then the Wm prefix, then export;
+   * the remaining classes are returned as secondary types.
    */
-  static extractProps(sourceCode: string): {
+  static extractProps(sourceCode: string, preferredClassName?: string): {
     props: PropInfo[];
     className: string;
     baseClass?: string;
+    description?: string;
+    secondaryTypes: TypeDoc[];
   } | null {
     const sourceFile = this.createSourceFile(sourceCode);
-    let result: { props: PropInfo[]; className: string; baseClass?: string } | null = null;
+    const candidates: Array<TypeDoc & { exported: boolean; isDefault: boolean }> = [];
 
     const visit = (node: ts.Node) => {
       if (ts.isClassDeclaration(node) && node.name) {
@@ -35,58 +135,65 @@ export class TypeScriptParser {
 
         // Only process Props classes
         if (className.endsWith('Props')) {
-          const props: PropInfo[] = [];
-          let baseClass: string | undefined;
-
-          // Get base class
-          if (node.heritageClauses) {
-            for (const heritage of node.heritageClauses) {
-              if (heritage.token === ts.SyntaxKind.ExtendsKeyword) {
-                const baseType = heritage.types[0];
-                if (ts.isExpressionWithTypeArguments(baseType)) {
-                  baseClass = baseType.expression.getText(sourceFile);
-                }
-              }
-            }
-          }
+          candidates.push({
+            name: className,
+            baseClass: this.getBaseClassName(node, sourceFile),
+            description: this.extractJSDoc(node)?.description,
+            props: this.extractClassProperties(node, sourceFile),
+            exported: this.hasModifier(node, ts.SyntaxKind.ExportKeyword),
+            isDefault: this.hasModifier(node, ts.SyntaxKind.DefaultKeyword) ||
+              this.isDefaultExported(className, sourceFile),
+          });
+        }
+      }
 
-          // Extract properties
-          node.members.forEach((member) => {
-            if (ts.isPropertyDeclaration(member) && member.name) {
-              const propName = member.name.getText(sourceFile);
-              const optional = !!member.questionToken;
-              let propType = 'any';
-              let defaultValue: string | undefined;
-
-              // Get type
-              if (member.type) {
-                propType = member.type.getText(sourceFile);
-              }
+      ts.forEachChild(node, visit);
+    };
 
-              // Get default value
-              if (member.initializer) {
-                let initText = member.initializer.getText(sourceFile);
-                // Clean up "null as any" patterns
-                if (initText === 'null as any') {
-                  defaultValue = 'null';
-                } else if (initText.endsWith(' as any')) {
-                  defaultValue = initText.replace(' as any', '');
-                } else {
-                  defaultValue = initText;
-                }
-              }
+    visit(sourceFile);
 
-              props.push({
-                name: propName,
-                type: propType,
-                optional,
-                defaultValue,
-                inherited: false,
-              });
-            }
-          });
+    if (candidates.length === 0) {
+      return null;
+    }
+
+    // Ties go to the last declaration, matching the historic single-class behaviour
+    const preferred = preferredClassName?.toLowerCase();
+    const rank = (c: typeof candidates[number]) =>
+      (c.name.toLowerCase() === preferred ? 8 : 0) + (c.isDefault ? 4 : 0) +
+      (c.name.startsWith('Wm') ? 2 : 0) + (c.exported ? 1 : 0);
+    const primary = candidates.reduce((best, c) => (rank(c) >= rank(best) ? c : best));
+
+    return {
+      props: primary.props,
+      className: primary.name,
+      baseClass: primary.baseClass,
+      description: primary.description,
+      secondaryTypes: candidates
+        .filter(c => c !== primary)
+        .map(({ exported, isDefault, ...type }) => type),
+    };
+  }
+
+  /**
+   * Extract the component's State class (the S in BaseComponent<P, S, L>, else the last *State class)
+   */
+  static extractState(sourceCode: string): TypeDoc | null {
+    const sourceFile = this.createSourceFile(sourceCode);
+    const stateClasses = new Map<string, ts.ClassDeclaration>();
+    let stateTypeName: string | undefined;
+
+    const visit = (node: ts.Node) => {
+      if (ts.isClassDeclaration(node) && node.name) {
+        const className = node.name.text;
 
-          result = { props, className, baseClass };
+        if (className.endsWith('State')) {
+          stateClasses.set(className, node);
+        } else if (!className.endsWith('Props') && !className.endsWith('Styles')) {
+          const heritage = node.heritageClauses?.find(clause => clause.token === ts.SyntaxKind.ExtendsKeyword);
+          const stateArg = heritage?.types[0]?.typeArguments?.[1];
+          if (stateArg) {
+            stateTypeName = stateArg.getText(sourceFile);
+          }
         }
       }
 
@@ -94,91 +201,200 @@ export class TypeScriptParser {
     };
 
     visit(sourceFile);
-    return result;
+
+    const node = (stateTypeName && stateClasses.get(stateTypeName)) || [...stateClasses.values()].pop();
+    if (!node || !node.name) {
+      return null;
+    }
+
+    return {
+      name: node.name.text,
+      baseClass: this.getBaseClassName(node, sourceFile),
+      description: this.extractJSDoc(node)?.description,
+      props: this.extractClassProperties(node, sourceFile),
+    };
+  }
+
+  /**
+   * Extract the public instance fields of a class (Props or State)
+   */
+  private static extractClassProperties(node: ts.ClassDeclaration, sourceFile: ts.SourceFile): PropInfo[] {
+    const props: PropInfo[] = [];
+
+    node.members.forEach((member) => {
+      if (ts.isPropertyDeclaration(member) && member.name &&
+          this.getVisibility(member) === 'public' && !this.hasModifier(member, ts.SyntaxKind.StaticKeyword)) {
+        const propName = member.name.getText(sourceFile);
+        const optional = !!member.questionToken;
+        let propType = 'any';
+        let defaultValue: string | undefined;
+
+        // Get type
+        if (member.type) {
+          propType = member.type.getText(sourceFile);
+        }
+
+        // Get default value
+        if (member.initializer) {
+          let initText = member.initializer.getText(sourceFile);
+          // Clean up "null as any" patterns
+          if (initText === 'null as any') {
+            defaultValue = 'null';
+          } else if (initText.endsWith(' as any')) {
+            defaultValue = initText.replace(' as any', '');
+          } else {
+            defaultValue = initText;
+          }
+        }
+
+        const jsDoc = this.extractJSDoc(member);
+
+        props.push({
+          name: propName,
+          type: propType,
+          optional,
+          // An explicit initializer is the runtime truth; @default only fills the gap
+          defaultValue: defaultValue ?? jsDoc?.defaultValue,
+          description: jsDoc?.description,
+          examples: jsDoc?.examples.length ? jsDoc.examples : undefined,
+          deprecated: this.toDeprecation(jsDoc?.deprecated),
+          since: jsDoc?.since,
+          inherited: false,
+        });
+      }
+    });
+
+    return props;
+  }
+
+  /**
+   * Whether the file has `export default ClassName;`
+   */
+  private static isDefaultExported(className: string, sourceFile: ts.SourceFile): boolean {
+    return sourceFile.statements.some(statement =>
+      ts.isExportAssignment(statement) && !statement.isExportEquals &&
+      ts.isIdentifier(statement.expression) && statement.expression.text === className
+    );
   }
 
   /**
    * Extract methods from component class
    */
-  static extractMethods(sourceCode: string): {
+  static extractMethods(sourceCode: string, targetClassName?: string): {
     methods: MethodInfo[];
     className: string;
+    baseClass?: string;
+    description?: string;
   } | null {
     const sourceFile = this.createSourceFile(sourceCode);
-    let result: { methods: MethodInfo[]; className: string } | null = null;
+    let result: { methods: MethodInfo[]; className: string; baseClass?: string; description?: string } | null = null;
 
     const visit = (node: ts.Node) => {
       if (ts.isClassDeclaration(node) && node.name) {
         const className = node.name.text;
 
-        // Process component classes (not Props or Styles)
-        if (!className.endsWith('Props') && !className.endsWith('Styles') && !className.endsWith('State')) {
+        // Process component classes (not Props or Styles), or only the requested class
+        const isTarget = targetClassName
+          ? className === targetClassName
+          : !className.endsWith('Props') && !className.endsWith('Styles') && !className.endsWith('State');
+        if (isTarget) {
           const methods: MethodInfo[] = [];
 
-          node.members.forEach((member) => {
-            if (ts.isMethodDeclaration(member) && member.name) {
-              const methodName = member.name.getText(sourceFile);
-
-              // Skip lifecycle methods and render methods (they're not public API)
-              if (['constructor', 'render', 'componentDidMount', 'componentWillUnmount',
-                   'shouldComponentUpdate', 'componentDidUpdate'].includes(methodName)) {
-                return;
-              }
+          const accessors = new Map<string, MethodInfo>();
 
-              let visibility: 'public' | 'private' | 'protected' = 'public';
-
-              // Check modifiers
-              if (member.modifiers) {
-                for (const modifier of member.modifiers) {
-                  if (modifier.kind === ts.SyntaxKind.PrivateKeyword) {
-                    visibility = 'private';
-                  } else if (modifier.kind === ts.SyntaxKind.ProtectedKeyword) {
-                    visibility = 'protected';
-                  }
-                }
-              }
+          node.members.forEach((member) => {
+            if (!member.name || this.getVisibility(member) !== 'public') {
+              return;
+            }
 
-              // Only include public methods
-              if (visibility !== 'public') {
-                return;
-              }
+            const memberName = member.name.getText(sourceFile);
 
-              // Get return type
-              let returnType = 'void';
-              if (member.type) {
-                returnType = member.type.getText(sourceFile);
-              }
+            // Skip lifecycle methods and render methods (they're not public API)
+            if (['constructor', 'render', 'componentDidMount', 'componentWillUnmount',
+                 'shouldComponentUpdate', 'componentDidUpdate'].includes(memberName)) {
+              return;
+            }
 
-              // Get parameters
-              const parameters: ParameterInfo[] = [];
-              member.parameters.forEach((param) => {
-                if (ts.isIdentifier(param.name)) {
-                  const paramName = param.name.text;
-                  const paramOptional = !!param.questionToken;
-                  let paramType = 'any';
-
-                  if (param.type) {
-                    paramType = param.type.getText(sourceFile);
-                  }
-
-                  parameters.push({
-                    name: paramName,
-                    type: paramType,
-                    optional: paramOptional,
-                  });
-                }
-              });
+            const jsDoc = this.extractJSDoc(member);
+            const isStatic = this.hasModifier(member, ts.SyntaxKind.StaticKeyword);
+            const docFields = {
+              description: jsDoc?.description,
+              examples: jsDoc?.examples.length ? jsDoc.examples : undefined,
+              deprecated: this.toDeprecation(jsDoc?.deprecated),
+              since: jsDoc?.since,
+            };
+
+            // Regular methods, and class properties initialized with a function
+            // e.g. public focus = () => {...}, declared as focus: () => void in .d.ts files
+            let fn: ts.SignatureDeclaration | undefined;
+            let kind: MethodInfo['kind'] = 'method';
+            if (ts.isMethodDeclaration(member)) {
+              fn = member;
+            } else if (ts.isPropertyDeclaration(member) && member.initializer &&
+                       (ts.isArrowFunction(member.initializer) || ts.isFunctionExpression(member.initializer))) {
+              fn = member.initializer;
+              kind = 'property';
+            } else if (ts.isPropertyDeclaration(member) && !member.initializer &&
+                       member.type && ts.isFunctionTypeNode(member.type)) {
+              fn = member.type;
+              kind = 'property';
+            }
 
+            if (fn) {
               methods.push({
-                name: methodName,
-                visibility,
-                returnType,
-                parameters,
+                name: memberName,
+                visibility: 'public',
+                kind,
+                static: isStatic || undefined,
+                returnType: fn.type ? fn.type.getText(sourceFile) : 'void',
+                parameters: this.extractParameters(fn.parameters, sourceFile, jsDoc),
+                ...docFields,
+                returnDescription: jsDoc?.returns,
               });
+              return;
+            }
+
+            // get/set pairs are merged into a single read/write entry
+            if (ts.isGetAccessorDeclaration(member) || ts.isSetAccessorDeclaration(member)) {
+              const isGetter = ts.isGetAccessorDeclaration(member);
+              const accessorType = isGetter
+                ? member.type?.getText(sourceFile)
+                : member.parameters[0]?.type?.getText(sourceFile);
+
+              let entry = accessors.get(memberName);
+              if (!entry) {
+                entry = {
+                  name: memberName,
+                  visibility: 'public',
+                  kind: 'accessor',
+                  static: isStatic || undefined,
+                  returnType: 'any',
+                  parameters: [],
+                };
+                accessors.set(memberName, entry);
+                methods.push(entry);
+              }
+
+              entry.access = entry.access && entry.access !== (isGetter ? 'read' : 'write')
+                ? 'readwrite'
+                : (isGetter ? 'read' : 'write');
+              // The getter's declared type wins over the setter's parameter type
+              if (accessorType && (isGetter || entry.returnType === 'any')) {
+                entry.returnType = accessorType;
+              }
+              // Prefer the getter's JSDoc, fall back to the setter's
+              if (jsDoc && (isGetter || !entry.description)) {
+                Object.assign(entry, docFields);
+              }
             }
           });
 
-          result = { methods, className };
+          result = {
+            methods,
+            className,
+            baseClass: this.getBaseClassName(node, sourceFile),
+            description: this.extractJSDoc(node)?.description,
+          };
         }
       }
 
@@ -189,24 +405,84 @@ export class TypeScriptParser {
     return result;
   }
 
+  /**
+   * Get the class named in the extends clause (without type arguments)
+   */
+  private static getBaseClassName(node: ts.ClassDeclaration, sourceFile: ts.SourceFile): string | undefined {
+    const heritage = node.heritageClauses?.find(clause => clause.token === ts.SyntaxKind.ExtendsKeyword);
+    const baseType = heritage?.types[0];
+    return baseType ? baseType.expression.getText(sourceFile) : undefined;
+  }
+
+  /**
+   * Get member visibility from modifiers (#private names count as private)
+   */
+  private static getVisibility(member: ts.ClassElement): 'public' | 'private' | 'protected' {
+    if (member.name && ts.isPrivateIdentifier(member.name)) {
+      return 'private';
+    }
+    if (this.hasModifier(member, ts.SyntaxKind.PrivateKeyword)) {
+      return 'private';
+    }
+    if (this.hasModifier(member, ts.SyntaxKind.ProtectedKeyword)) {
+      return 'protected';
+    }
+    return 'public';
+  }
+
+  private static hasModifier(node: ts.Node, kind: ts.SyntaxKind): boolean {
+    return ts.canHaveModifiers(node) && !!ts.getModifiers(node)?.some(modifier => modifier.kind === kind);
+  }
+
+  /**
+   * Extract parameter info, with descriptions from the JSDoc @param tags
+   */
+  private static extractParameters(
+    params: ts.NodeArray<ts.ParameterDeclaration>,
+    sourceFile: ts.SourceFile,
+    jsDoc: JSDocInfo | null
+  ): ParameterInfo[] {
+    const parameters: ParameterInfo[] = [];
+
+    params.forEach((param) => {
+      if (ts.isIdentifier(param.name)) {
+        const paramName = param.name.text;
+
+        parameters.push({
+          name: paramName,
+          type: param.type ? param.type.getText(sourceFile) : 'any',
+          optional: !!param.questionToken,
+          description: jsDoc?.params[paramName],
+        });
+      }
+    });
+
+    return parameters;
+  }
+
   /**
    * Extract style class names from styles file
    */
-  static extractStyleClasses(sourceCode: string): {
+  static extractStyleClasses(sourceCode: string, themeDefaults?: Map<string, ThemeDefault>): {
     defaultClass: string;
     styleClasses: string[];
+    unresolvedClasses: string[];
+    properties: Record<string, StyleValue>;
   } | null {
     const sourceFile = this.createSourceFile(sourceCode);
+    const evaluator = new StyleEvaluator(sourceFile, themeDefaults);
     let defaultClass = '';
     const styleClasses: string[] = [];
+    const unresolvedClasses: string[] = [];
+    const properties: Record<string, StyleValue> = {};
 
     const visit = (node: ts.Node) => {
       // Look for DEFAULT_CLASS constant
       if (ts.isVariableStatement(node)) {
         node.declarationList.declarations.forEach((declaration) => {
           if (ts.isIdentifier(declaration.name) && declaration.name.text === 'DEFAULT_CLASS') {
-            if (declaration.initializer && ts.isStringLiteral(declaration.initializer)) {
-              defaultClass = declaration.initializer.text;
+            if (declaration.initializer) {
+              defaultClass = evaluator.evaluateString(declaration.initializer) ?? defaultClass;
             }
           }
         });
@@ -226,34 +502,28 @@ export class TypeScriptParser {
 
         if (isAddStyleCall && node.arguments.length > 0) {
           const firstArg = node.arguments[0];
-          if (ts.isStringLiteral(firstArg)) {
-            // Direct string literal: addStyle('link-primary', ...)
-            const className = firstArg.text;
+
+          // Class names may be literals, constants, template literals, concatenations or helper calls,
+          // possibly inside a forEach over a constant array - fold them all statically
+          for (const bindings of evaluator.getIterationBindings(node)) {
+            const className = evaluator.evaluateString(firstArg, bindings);
+
+            if (className === undefined) {
+              const text = firstArg.getText(sourceFile);
+              if (!unresolvedClasses.includes(text)) {
+                unresolvedClasses.push(text);
+              }
+              continue;
+            }
+
             if (!styleClasses.includes(className)) {
               styleClasses.push(className);
             }
-          } else if (ts.isBinaryExpression(firstArg)) {
-            // Handle cases like DEFAULT_CLASS + '-disabled'
-            const text = firstArg.getText(sourceFile);
-
-            // Try to resolve DEFAULT_CLASS references
-            let resolvedClassName = text;
-            if (text.includes('DEFAULT_CLASS') && defaultClass) {
-              resolvedClassName = text.replace(/DEFAULT_CLASS/g, `'${defaultClass}'`);
-              // Evaluate simple concatenations like 'app-button' + '-disabled'
-              try {
-                // Remove quotes and concatenate
-                resolvedClassName = resolvedClassName
-                  .replace(/['"`]/g, '')
-                  .replace(/\s*\+\s*/g, '');
-              } catch (e) {
-                // Keep original if evaluation fails
-                resolvedClassName = text;
-              }
-            }
 
-            if (!styleClasses.includes(resolvedClassName)) {
-              styleClasses.push(resolvedClassName);
+            // addStyle(name, extendsFrom, styles) - the styles object is the last argument
+            if (node.arguments.length > 1) {
+              const styleValue = evaluator.evaluate(node.arguments[node.arguments.length - 1], bindings);
+              properties[className] = this.mergeStyles(properties[className], styleValue);
             }
           }
         }
@@ -264,17 +534,51 @@ export class TypeScriptParser {
 
     visit(sourceFile);
 
-    if (defaultClass || styleClasses.length > 0) {
-      return { defaultClass, styleClasses };
+    if (defaultClass || styleClasses.length > 0 || unresolvedClasses.length > 0) {
+      return { defaultClass, styleClasses, unresolvedClasses, properties };
     }
 
     return null;
   }
 
+  /**
+   * Read default theme variable values from the runtime's ThemeVariables class
+   */
+  static extractThemeVariables(sourceCode: string): Map<string, ThemeDefault> {
+    const sourceFile = this.createSourceFile(sourceCode);
+    return new StyleEvaluator(sourceFile).evaluateClassProperties();
+  }
+
+  /**
+   * Merge the style objects of repeated addStyle calls for the same class
+   */
+  private static mergeStyles(existing: StyleValue | undefined, added: StyleValue): StyleValue {
+    const isObject = (value: StyleValue | undefined): value is { [key: string]: StyleValue } =>
+      typeof value === 'object' && value !== null && !Array.isArray(value) &&
+      !('themeVariable' in value) && !('expression' in value);
+
+    if (!isObject(existing) || !isObject(added)) {
+      return added;
+    }
+
+    const merged = { ...existing };
+    for (const [key, value] of Object.entries(added)) {
+      merged[key] = this.mergeStyles(merged[key], value);
+    }
+    return merged;
+  }
+
   /**
    * Extract event handlers (props that are Functions and start with 'on')
    */
-  static extractEvents(props: PropInfo[]): Array<{ name: string; type: string }> {
+  static extractEvents(props: PropInfo[]): Array<{
+    name: string;
+    type: string;
+    description?: string;
+    deprecated?: DeprecationInfo;
+    since?: string;
+    inheritedFrom?: string;
+  }> {
     return props
       .filter(prop =>
         prop.name.startsWith('on') &&
@@ -283,42 +587,259 @@ export class TypeScriptParser {
       .map(prop => ({
         name: prop.name,
         type: prop.type,
+        description: prop.description,
+        deprecated: prop.deprecated,
+        since: prop.since,
+        inheritedFrom: prop.inheritedFrom,
       }));
   }
 
   /**
-   * Extract event callbacks from invokeEventCallback calls in JavaScript source
-   * Pattern: invokeEventCallback('onTap', [e, target])
+   * Module specifiers whose imports the source renders as JSX elements or type-checks against
+   * (type references, instanceof). Imports only used as a base class do not count.
    */
-  static extractEventCallbacks(sourceCode: string): Array<{ name: string; parameters: string }> {
-    const events: Array<{ name: string; parameters: string }> = [];
+  static findRenderedImports(sourceCode: string): string[] {
+    const sourceFile = this.createSourceFile(sourceCode);
+    const importedFrom = new Map<string, string>();
+
+    for (const statement of sourceFile.statements) {
+      if (!ts.isImportDeclaration(statement) || !ts.isStringLiteral(statement.moduleSpecifier)) continue;
+
+      const specifier = statement.moduleSpecifier.text;
+      const clause = statement.importClause;
+      if (clause?.name) {
+        importedFrom.set(clause.name.text, specifier);
+      }
+      if (clause?.namedBindings && ts.isNamedImports(clause.namedBindings)) {
+        clause.namedBindings.elements.forEach(element => importedFrom.set(element.name.text, specifier));
+      }
+    }
+
+    const used = new Set<string>();
+    const use = (node: ts.Node) => {
+      const specifier = ts.isIdentifier(node) ? importedFrom.get(node.text) : undefined;
+      if (specifier) used.add(specifier);
+    };
+
+    const visit = (node: ts.Node) => {
+      if (ts.isJsxOpeningElement(node) || ts.isJsxSelfClosingElement(node)) {
+        use(node.tagName);
+      } else if (ts.isTypeReferenceNode(node)) {
+        use(ts.isQualifiedName(node.typeName) ? node.typeName.left : node.typeName);
+      } else if (ts.isBinaryExpression(node) && node.operatorToken.kind === ts.SyntaxKind.InstanceOfKeyword) {
+        use(node.right);
+      }
+
+      ts.forEachChild(node, visit);
+    };
+
+    visit(sourceFile);
+    return [...used];
+  }
+
+  /**
+   * Extract event callbacks from the component's TypeScript source
+   * Patterns: this.invokeEventCallback('onTap', [e, this.proxy])
+   *           this.props.onChange?.(value)
+   * @param propTypes - Declared prop types, used to type `this.props.x` arguments
+   */
+  static extractEventCallbacks(
+    sourceCode: string,
+    propTypes: Map<string, string> = new Map()
+  ): Array<{ name: string; parameters: string; payload: ParameterInfo[] }> {
+    const sourceFile = this.createSourceFile(sourceCode);
+    const events: Array<{ name: string; parameters: string; payload: ParameterInfo[] }> = [];
     const eventSet = new Set<string>(); // To avoid duplicates
 
-    // Match: invokeEventCallback('eventName', [params])
-    // This regex captures the event name from invokeEventCallback calls
-    const invokePattern = /invokeEventCallback\s*\(\s*['"](\w+)['"]\s*,\s*\[([^\]]*)\]\s*\)/g;
+    const addEvent = (name: string, args: readonly ts.Expression[] | null, callSite: ts.Node) => {
+      if (eventSet.has(name)) return;
+      eventSet.add(name);
+
+      // Literal arguments (invokeEventCallback('onTap', [null, this])) have no name of their own;
+      // take it from the event prop's declared callback type when there is one
+      const declaredNames = this.callbackParameterNames(propTypes.get(name));
+      const payload = args
+        ? args.map((arg, index) => this.resolveEventArgument(arg, index, callSite, sourceFile, propTypes))
+            .map((p, index) => /^arg\d+$/.test(p.name) && declaredNames[index] ? { ...p, name: declaredNames[index] } : p)
+        : [{ name: '...args', type: 'any[]', optional: false }];
+
+      events.push({
+        name,
+        parameters: `(${payload.map(p => `${p.name}: ${p.type}`).join(', ')})`,
+        payload,
+      });
+    };
+
+    const visit = (node: ts.Node) => {
+      if (ts.isCallExpression(node)) {
+        const callee = node.expression;
+        const calleeName = ts.isIdentifier(callee)
+          ? callee.text
+          : ts.isPropertyAccessExpression(callee) ? callee.name.text : undefined;
+
+        if (calleeName === 'invokeEventCallback' && node.arguments.length > 0) {
+          // invokeEventCallback('onTap', [e, target]) - the payload is the array argument
+          const [nameArg, argsArg] = node.arguments;
+          if (ts.isStringLiteralLike(nameArg)) {
+            addEvent(nameArg.text, argsArg ? this.resolveArgumentList(argsArg, node) : [], node);
+          }
+        } else if (calleeName && /^on[A-Z]/.test(calleeName) && ts.isPropertyAccessExpression(callee) &&
+                   /(^|\.)props$/.test(callee.expression.getText(sourceFile))) {
+          // this.props.onChange?.(value) - direct invocation of a callback prop
+          addEvent(calleeName, node.arguments, node);
+        }
+      }
+
+      ts.forEachChild(node, visit);
+    };
 
-    let match;
-    while ((match = invokePattern.exec(sourceCode)) !== null) {
-      const eventName = match[1]; // e.g., 'onTap', 'onDoubletap', 'onLongtap'
-      const params = match[2].trim(); // e.g., 'e, target'
+    visit(sourceFile);
+    return events;
+  }
 
-      if (!eventSet.has(eventName)) {
-        eventSet.add(eventName);
+  /**
+   * Parameter names of a declared callback type, e.g. ['event', 'widget'] for
+   * `(event: any, widget: WmButton) => void`; empty if the type is not a function type
+   */
+  private static callbackParameterNames(callbackType?: string): string[] {
+    if (!callbackType) return [];
+
+    const statement = this.createSourceFile(`type Callback = ${callbackType};`).statements[0];
+    let type = statement && ts.isTypeAliasDeclaration(statement) ? statement.type : undefined;
+    while (type && (ts.isParenthesizedTypeNode(type) || ts.isUnionTypeNode(type))) {
+      // ((event: any) => void) | undefined
+      type = ts.isParenthesizedTypeNode(type)
+        ? type.type
+        : type.types.find(member => ts.isFunctionTypeNode(member) || ts.isParenthesizedTypeNode(member));
+    }
 
-        // Clean up parameters - extract variable names
-        const paramList = params
-          .split(',')
-          .map(p => p.trim())
-          .filter(p => p && p !== 'this.props.target' && p !== 'target');
+    return type && ts.isFunctionTypeNode(type)
+      ? type.parameters.map(p => ts.isIdentifier(p.name) ? p.name.text : '')
+      : [];
+  }
 
-        events.push({
-          name: eventName,
-          parameters: paramList.length > 0 ? `(${paramList.join(', ')})` : '()'
-        });
+  /**
+   * Elements of the payload array passed to invokeEventCallback, or null if not statically known.
+   * Follows an identifier to a local `const args = [...]` declaration.
+   */
+  private static resolveArgumentList(expr: ts.Expression, callSite: ts.Node): readonly ts.Expression[] | null {
+    if (ts.isArrayLiteralExpression(expr)) {
+      return expr.elements;
+    }
+
+    if (ts.isIdentifier(expr)) {
+      const declaration = this.findLocalDeclaration(expr.text, callSite);
+      if (declaration && ts.isVariableDeclaration(declaration) && declaration.initializer &&
+          ts.isArrayLiteralExpression(declaration.initializer)) {
+        return declaration.initializer.elements;
       }
     }
 
-    return events;
+    return null;
+  }
+
+  /**
+   * Name and declared type of a single event argument
+   */
+  private static resolveEventArgument(
+    arg: ts.Expression,
+    index: number,
+    callSite: ts.Node,
+    sourceFile: ts.SourceFile,
+    propTypes: Map<string, string>
+  ): ParameterInfo {
+    const param = (name: string, type: string): ParameterInfo => ({ name, type, optional: false });
+
+    if (ts.isSpreadElement(arg)) {
+      const inner = this.resolveEventArgument(arg.expression, index, callSite, sourceFile, propTypes);
+      return param(`...${inner.name}`, inner.type === 'any' ? 'any[]' : inner.type);
+    }
+
+    if (ts.isAsExpression(arg)) {
+      return param(this.resolveEventArgument(arg.expression, index, callSite, sourceFile, propTypes).name,
+        arg.type.getText(sourceFile));
+    }
+
+    // The widget itself: this / this.proxy
+    const text = arg.getText(sourceFile);
+    if (text === 'this' || text === 'this.proxy') {
+      const classNode = this.findAncestor(callSite, ts.isClassDeclaration);
+      return param('widget', classNode?.name?.text ?? 'any');
+    }
+
+    // this.props.x / this.state.props.x
+    const propMatch = text.match(/(?:^|\.)props\.(\w+)$/);
+    if (propMatch) {
+      return param(propMatch[1], propTypes.get(propMatch[1]) ?? 'any');
+    }
+
+    if (ts.isIdentifier(arg)) {
+      if (arg.text === 'undefined') return param(`arg${index}`, 'undefined');
+
+      const declaration = this.findLocalDeclaration(arg.text, callSite);
+      let type = 'any';
+      if (declaration?.type) {
+        type = declaration.type.getText(sourceFile);
+      } else if (declaration && ts.isVariableDeclaration(declaration) && declaration.initializer) {
+        type = this.literalType(declaration.initializer) ?? 'any';
+      }
+      return param(arg.text, type);
+    }
+
+    if (ts.isPropertyAccessExpression(arg)) {
+      return param(arg.name.text, 'any');
+    }
+
+    return param(`arg${index}`, this.literalType(arg) ?? 'any');
+  }
+
+  /**
+   * Type of a literal expression, if it is one
+   */
+  private static literalType(expr: ts.Expression): string | undefined {
+    if (ts.isStringLiteralLike(expr) || ts.isTemplateExpression(expr)) return 'string';
+    if (ts.isNumericLiteral(expr)) return 'number';
+    if (expr.kind === ts.SyntaxKind.TrueKeyword || expr.kind === ts.SyntaxKind.FalseKeyword) return 'boolean';
+    if (expr.kind === ts.SyntaxKind.NullKeyword) return 'null';
+    if (ts.isObjectLiteralExpression(expr)) return 'object';
+    if (ts.isArrayLiteralExpression(expr)) return 'any[]';
+    if (ts.isArrowFunction(expr) || ts.isFunctionExpression(expr)) return 'Function';
+    return undefined;
+  }
+
+  /**
+   * Find the parameter or variable declaration a name refers to, searching outward from a node
+   */
+  private static findLocalDeclaration(
+    name: string,
+    from: ts.Node
+  ): ts.ParameterDeclaration | ts.VariableDeclaration | undefined {
+    for (let scope: ts.Node | undefined = from.parent; scope; scope = scope.parent) {
+      if (ts.isFunctionLike(scope)) {
+        const parameter = scope.parameters.find(p => ts.isIdentifier(p.name) && p.name.text === name);
+        if (parameter) return parameter;
+      }
+
+      if (ts.isBlock(scope) || ts.isSourceFile(scope)) {
+        for (const statement of scope.statements) {
+          if (statement.pos >= from.pos) break;
+          if (!ts.isVariableStatement(statement)) continue;
+
+          const declaration = statement.declarationList.declarations.find(
+            d => ts.isIdentifier(d.name) && d.name.text === name
+          );
+          if (declaration) return declaration;
+        }
+      }
+    }
+
+    return undefined;
+  }
+
+  private static findAncestor<T extends ts.Node>(node: ts.Node, test: (n: ts.Node) => n is T): T | undefined {
+    for (let current = node.parent; current; current = current.parent) {
+      if (test(current)) return current;
+    }
+    return undefined;
   }
 }
@@ -0,0 +1,215 @@
+/**
+ * Type-checker based prop type resolution over all runtime sources
+ */
+
+import * as path from 'path';
+import * as ts from 'typescript';
+import { SourceBackend } from './source-backend.js';
+
+const RUNTIME_PACKAGE = '@wavemaker/app-rn-runtime';
+
+export interface ResolvedPropType {
+  type: string;
+  allowedValues?: Array<string | number | boolean>;
+}
+
+export class TypeResolver {
+  private libraryPath: string;
+  private files: Map<string, string>;
+  private program: ts.Program | null = null;
+
+  /**
+   * @param libraryPath - Root of the runtime; used to resolve package imports
+   * @param files - Virtual TypeScript files keyed by absolute path
+   */
+  constructor(libraryPath: string, files: Map<string, string>) {
+    this.libraryPath = libraryPath;
+    this.files = files;
+  }
+
+  /**
+   * Create a resolver from every module the input backend can read in the library
+   */
+  static fromBackend(libraryPath: string, backend: SourceBackend): TypeResolver {
+    const files = new Map<string, string>();
+
+    for (const modulePath of new Set(this.findModules(libraryPath, backend))) {
+      const source = backend.readModule(modulePath);
+      if (source) {
+        files.set(source.fileName, source.content);
+      }
+    }
+
+    return new TypeResolver(libraryPath, files);
+  }
+
+  /**
+   * Recursively collect module paths
+   */
+  private static findModules(dir: string, backend: SourceBackend, found: string[] = []): string[] {
+    try {
+      for (const entry of backend.fileSystem.readDir(dir)) {
+        if (entry.name.startsWith('.') || entry.name === 'node_modules') continue;
+
+        const fullPath = path.join(dir, entry.name);
+        const moduleName = entry.isFile() ? backend.getModuleName(entry.name) : null;
+        if (entry.isDirectory()) {
+          this.findModules(fullPath, backend, found);
+        } else if (moduleName) {
+          found.push(path.join(dir, moduleName));
+        }
+      }
+    } catch (error) {
+      // Ignore permission errors, etc.
+    }
+
+    return found;
+  }
+
+  /**
+   * Build (once) the in-memory program over all virtual files
+   */
+  private getProgram(): ts.Program {
+    if (this.program) {
+      return this.program;
+    }
+
+    const options: ts.CompilerOptions = {
+      target: ts.ScriptTarget.ES2020,
+      module: ts.ModuleKind.ESNext,
+      moduleResolution: ts.ModuleResolutionKind.Node10,
+      jsx: ts.JsxEmit.React,
+      strict: true,
+      noEmit: true,
+      skipLibCheck: true,
+      types: [],
+      baseUrl: this.libraryPath,
+      paths: {
+        [`${RUNTIME_PACKAGE}/*`]: ['./*'],
+      },
+    };
+
+    const host = ts.createCompilerHost(options, true);
+    const { getSourceFile, fileExists, readFile, directoryExists } = host;
+    const dirs = new Set<string>();
+    for (const file of this.files.keys()) {
+      for (let dir = path.dirname(file); !dirs.has(dir) && dir !== path.dirname(dir); dir = path.dirname(dir)) {
+        dirs.add(dir);
+      }
+    }
+
+    host.fileExists = (fileName) => this.files.has(fileName) || fileExists.call(host, fileName);
+    host.readFile = (fileName) => this.files.get(fileName) ?? readFile.call(host, fileName);
+    host.directoryExists = (dirName) => dirs.has(dirName) || (directoryExists?.call(host, dirName) ?? false);
+    host.getSourceFile = (fileName, languageVersion, onError, shouldCreate) => {
+      const content = this.files.get(fileName);
+      if (content !== undefined) {
+        return ts.createSourceFile(fileName, content, languageVersion, true);
+      }
+      return getSourceFile.call(host, fileName, languageVersion, onError, shouldCreate);
+    };
+
+    this.program = ts.createProgram([...this.files.keys()], options, host);
+    return this.program;
+  }
+
+  /**
+   * Map a module path (without extension) to the virtual file holding its source
+   */
+  private toVirtualPath(modulePath: string): string {
+    if (this.files.has(modulePath)) {
+      return modulePath;
+    }
+
+    const candidates = ['.ts', '.tsx', '.d.ts'].map(ext => `${modulePath}${ext}`);
+    return candidates.find(candidate => this.files.has(candidate)) ?? candidates[0];
+  }
+
+  /**
+   * Resolve the types of all properties declared by a class
+   * @param modulePath - Module path (without extension) or virtual file name of the declaring file
+   * @param className - Props class declared in that file
+   */
+  resolveProps(modulePath: string, className: string): Map<string, ResolvedPropType> {
+    const resolved = new Map<string, ResolvedPropType>();
+    const program = this.getProgram();
+    const sourceFile = program.getSourceFile(this.toVirtualPath(modulePath));
+
+    if (!sourceFile) {
+      return resolved;
+    }
+
+    const checker = program.getTypeChecker();
+    const classNode = sourceFile.statements.find(
+      (node): node is ts.ClassDeclaration => ts.isClassDeclaration(node) && node.name?.text === className
+    );
+
+    classNode?.members.forEach((member) => {
+      if (!ts.isPropertyDeclaration(member) || !member.name) return;
+
+      const type = checker.getTypeAtLocation(member);
+      if (type.flags & ts.TypeFlags.Any) return; // Unresolvable (e.g. react-native types)
+
+      resolved.set(member.name.getText(sourceFile), {
+        type: this.typeToString(checker, type),
+        allowedValues: this.getAllowedValues(checker, type),
+      });
+    });
+
+    return resolved;
+  }
+
+  /**
+   * Expand aliases and enums and drop the implicit undefined of optional props
+   */
+  private typeToString(checker: ts.TypeChecker, type: ts.Type): string {
+    const flags = ts.TypeFormatFlags.NoTruncation | ts.TypeFormatFlags.UseSingleQuotesForStringLiteralType;
+    const members = this.getUnionMembers(type);
+
+    if (members.length > 1) {
+      const printed = members.map(member => checker.typeToString(member, undefined, flags));
+      // Collapse true | false back to boolean
+      const hasTrue = printed.includes('true');
+      const hasFalse = printed.includes('false');
+      const normalized = hasTrue && hasFalse
+        ? printed.filter(t => t !== 'true' && t !== 'false').concat('boolean')
+        : printed;
+      return [...new Set(normalized)].join(' | ');
+    }
+
+    return checker.typeToString(members[0] ?? type, undefined, flags);
+  }
+
+  /**
+   * Members of a union, excluding undefined
+   */
+  private getUnionMembers(type: ts.Type): ts.Type[] {
+    const members = type.isUnion() ? type.types : [type];
+    return members.filter(member => !(member.flags & ts.TypeFlags.Undefined));
+  }
+
+  /**
+   * Enumerate the literal values a prop accepts, if it is a finite set of literals
+   */
+  private getAllowedValues(checker: ts.TypeChecker, type: ts.Type): Array<string | number | boolean> | undefined {
+    const members = this.getUnionMembers(type).filter(member => !(member.flags & ts.TypeFlags.Null));
+    const values: Array<string | number | boolean> = [];
+
+    for (const member of members) {
+      if (member.isStringLiteral() || member.isNumberLiteral()) {
+        values.push(member.value);
+      } else if (member.flags & ts.TypeFlags.BooleanLiteral) {
+        values.push(checker.typeToString(member) === 'true');
+      } else {
+        return undefined;
+      }
+    }
+
+    // A plain boolean is not worth enumerating
+    if (values.length === 0 || values.every(value => typeof value === 'boolean')) {
+      return undefined;
+    }
+
+    return values;
+  }
+}
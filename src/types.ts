@@ -5,40 +5,135 @@
 export interface PropInfo {
   name: string;
   type: string;
+  resolvedType?: string;
+  allowedValues?: Array<string | number | boolean>;
   defaultValue?: string;
   optional: boolean;
   description?: string;
+  examples?: string[];
+  deprecated?: DeprecationInfo;
+  since?: string;
   inherited?: boolean;
   inheritedFrom?: string;
+  /** Nearest parent Props class that also declares this prop */
+  overrides?: string;
+  /** The overridden parent declaration's type and default */
+  parentType?: string;
+  parentDefaultValue?: string;
+  /** Versions in which the default changed (from --history) */
+  defaultChanges?: DefaultChange[];
+}
+
+export interface DefaultChange {
+  version: string;
+  before?: string;
+  after?: string;
 }
 
 export interface MethodInfo {
   name: string;
   visibility: 'public' | 'private' | 'protected';
+  /** 'property' = class property holding a function, 'accessor' = get/set property */
+  kind?: 'method' | 'property' | 'accessor';
+  static?: boolean;
+  /** Accessors only: which of get/set are defined */
+  access?: 'read' | 'write' | 'readwrite';
   returnType: string;
   parameters: ParameterInfo[];
   description?: string;
+  returnDescription?: string;
+  examples?: string[];
+  deprecated?: DeprecationInfo;
+  since?: string;
+  inherited?: boolean;
+  inheritedFrom?: string;
 }
 
 export interface ParameterInfo {
   name: string;
   type: string;
   optional: boolean;
+  description?: string;
+}
+
+/**
+ * Documentation parsed from a JSDoc block
+ */
+export interface JSDocInfo {
+  description?: string;
+  params: Record<string, string>;
+  returns?: string;
+  defaultValue?: string;
+  examples: string[];
+  /** Text of the @deprecated tag ('' when the tag has no text) */
+  deprecated?: string;
+  since?: string;
+}
+
+/**
+ * Marks an API as deprecated; its presence is the flag
+ */
+export interface DeprecationInfo {
+  message?: string;
+  /** Name of the API to use instead */
+  replacement?: string;
+  /** Where the deprecation was declared */
+  source: 'jsdoc' | 'config';
 }
 
 export interface EventInfo {
   name: string;
+  /** Declared callback type of the event prop, or 'Function' when only the invoke site is known */
   type: string;
   parameters?: string;
+  /** Typed callback arguments, resolved from the invoke site */
+  payload?: ParameterInfo[];
   description?: string;
+  deprecated?: DeprecationInfo;
+  since?: string;
+  /**
+   * Where the event was found: 'prop' if it is declared as a callback prop, otherwise where it
+   * is raised - 'invoke' (the component's own source) or the module id of a referenced component
+   */
+  source?: string;
+  /**
+   * Where the event is raised: 'invoke' or the module id of a referenced component
+   * (e.g. 'core/tappable.component'); absent for a declared prop that is never invoked
+   */
+  raisedBy?: string;
+  /**
+   * With source 'prop': the parent Props class declaring the event prop, if inherited.
+   * With a referenced module source: the class of the referenced component. Unset for 'invoke'.
+   */
+  inheritedFrom?: string;
 }
 
 export interface StyleInfo {
   className: string;
   description?: string;
+  deprecated?: DeprecationInfo;
+  since?: string;
   properties?: Record<string, any>;
 }
 
+/**
+ * A style value taken from the theme, e.g. themeVariables.primaryColor
+ */
+export interface ThemeVariableRef {
+  themeVariable: string;
+  defaultValue?: string | number | boolean | null;
+}
+
+/**
+ * A class documented by its fields (secondary Props classes, the component State class)
+ */
+export interface TypeDoc {
+  name: string;
+  baseClass?: string;
+  description?: string;
+  props: PropInfo[];
+}
+
 export interface ComponentDoc {
   componentName: string;
   componentPath: string;
@@ -50,6 +145,20 @@ export interface ComponentDoc {
   baseClass?: string;
   children?: ComponentDoc[];
   description?: string;
+  /** Runtime state fields of the component (its State class) */
+  state?: TypeDoc;
+  /** Other Props classes declared next to the component's own */
+  secondaryTypes?: TypeDoc[];
+  /** Style class expressions that could not be resolved statically (source text) */
+  unresolvedStyleClasses?: string[];
+  /** Documented from .d.ts declarations only: no defaults, events or style classes from source */
+  declarationOnly?: boolean;
+  /** Runtime modules the component imports (library-relative, e.g. 'core/tappable.component') */
+  dependencies?: string[];
+  /** For aliases: the component whose API this one reuses */
+  aliasOf?: string;
+  /** Storybook folder for the generated markdown, if it differs from Wm + PascalCase name */
+  storybookFolder?: string;
 }
 
 export interface SourceMapContent {
@@ -59,3 +168,97 @@ export interface SourceMapContent {
   names: string[];
   mappings: string;
 }
+
+/**
+ * One difference between two versions of the component API
+ */
+export interface ApiChange {
+  component: string;
+  element: 'component' | 'prop' | 'method' | 'event' | 'styleClass';
+  /** Name of the prop/method/event/style class (the component name for 'component') */
+  name: string;
+  change: 'added' | 'removed' | 'changed';
+  /** For 'changed': which aspect changed, e.g. 'type', 'defaultValue', 'optional', 'parameters' */
+  field?: string;
+  before?: string;
+  after?: string;
+  /** Whether existing app code or Storybook stories may stop working */
+  breaking: boolean;
+}
+
+/**
+ * An acknowledged breaking change; matches changes with the same component, element and name
+ * (and field, if given)
+ */
+export interface BreakingChangeAllowance {
+  component: string;
+  element: ApiChange['element'];
+  name: string;
+  field?: string;
+  /** Why the change is acceptable, e.g. a migration note or ticket */
+  reason?: string;
+}
+
+export interface ApiDiff {
+  /** Library paths or JSON files that were compared */
+  from: string;
+  to: string;
+  changes: ApiChange[];
+}
+
+/**
+ * Components and runtime modules linked by imports and parent/child relations
+ */
+export interface DependencyGraph {
+  nodes: DependencyNode[];
+  edges: DependencyEdge[];
+}
+
+export interface DependencyNode {
+  /** Component name, or library-relative module id */
+  id: string;
+  kind: 'component' | 'module';
+  category?: string;
+}
+
+export interface DependencyEdge {
+  from: string;
+  to: string;
+  kind: 'imports' | 'child' | 'alias';
+}
+
+/**
+ * A component directory to document (or an alias of one), as listed by findAllComponents
+ */
+export interface ComponentLocation {
+  path: string;
+  category: string;
+  /** For aliases: the source component whose folder path points at */
+  aliasOf?: string;
+  aliasName?: string;
+}
+
+/**
+ * How a component directory found in the library is treated by the includeComponents whitelist
+ */
+export interface ComponentCoverage {
+  name: string;
+  category: string;
+  path: string;
+  /**
+   * included = documented; child = documented under a parent; excluded-category / excluded = by config;
+   * unlisted = not in includeComponents (a new or forgotten widget)
+   */
+  status: 'included' | 'child' | 'excluded-category' | 'excluded' | 'unlisted';
+  /** For children: the documented parent */
+  parent?: string;
+  /** componentAliases entries that reuse this component */
+  aliases?: string[];
+}
+
+export interface CoverageReport {
+  components: ComponentCoverage[];
+  aliases: Array<{ name: string; aliasOf: string; found: boolean }>;
+  /** includeComponents entries with no component directory in the library */
+  stale: string[];
+}
@@ -0,0 +1,138 @@
+/**
+ * "Since version" annotations from a series of runtime versions
+ */
+
+import * as path from 'path';
+import { loadComponentDocs } from './api-diff.js';
+import { GeneratorConfig } from './config.js';
+import { openLibrary } from './library-fs.js';
+import { ComponentDoc, DefaultChange, PropInfo } from './types.js';
+
+export interface VersionedDocs {
+  version: string;
+  docs: ComponentDoc[];
+}
+
+/**
+ * Version of a library: its package.json version, else a version in the file name
+ * (e.g. wavemaker-app-rn-runtime-11.4.0.tgz), else the file name itself
+ */
+export function getLibraryVersion(libraryPath: string): string {
+  if (!libraryPath.endsWith('.json')) {
+    try {
+      const packageJson = openLibrary(libraryPath).readFile(path.join(libraryPath, 'package.json'));
+      const version = JSON.parse(packageJson).version;
+      if (typeof version === 'string') {
+        return version;
+      }
+    } catch (error) {
+      // No package.json (e.g. a source checkout); fall back to the file name
+    }
+  }
+
+  const fileName = path.basename(libraryPath);
+  return fileName.match(/\d+\.\d+(\.\d+)?(-[\w.]+)?(?=\.(tgz|tar\.gz|json)$|$)/)?.[0] ?? fileName;
+}
+
+/**
+ * Extract the docs of each version in a history (one version at a time, each across the worker pool)
+ */
+export async function loadVersionHistory(
+  libraryPaths: string[],
+  config: Partial<GeneratorConfig> = {},
+  workers: number = 1
+): Promise<VersionedDocs[]> {
+  const history: VersionedDocs[] = [];
+  for (const libraryPath of libraryPaths) {
+    const version = getLibraryVersion(libraryPath);
+    console.log(`Loading version ${version} from ${libraryPath}...`);
+    history.push({ version, docs: await loadComponentDocs(libraryPath, config, workers) });
+  }
+  return history;
+}
+
+export class VersionHistory {
+  /**
+   * Annotate the latest docs with the version each prop, method, event and style class
+   * first appeared in, and the versions in which prop defaults changed.
+   * Items already present in the oldest version get no computed since (they predate the history);
+   * a since from the author's JSDoc is kept.
+   * @param latest - Docs of the newest version (left untouched; annotated copies are returned)
+   * @param history - Older versions, oldest first
+   */
+  static annotate(latest: VersionedDocs, history: VersionedDocs[]): ComponentDoc[] {
+    const versions = [...history, latest];
+    // A JSON copy, not structuredClone: docs share inherited prop/method objects, which must be annotated separately
+    const docs: ComponentDoc[] = JSON.parse(JSON.stringify(latest.docs));
+
+    docs.forEach(doc => this.annotateComponent(doc, versions.map(v => ({
+      version: v.version,
+      doc: v.docs.find(d => d.componentName === doc.componentName),
+    }))));
+
+    return docs;
+  }
+
+  private static annotateComponent(
+    doc: ComponentDoc,
+    versions: Array<{ version: string; doc?: ComponentDoc }>
+  ): void {
+    doc.props.forEach(prop => {
+      const present = versions.map(v => v.doc?.props.find(p => p.name === prop.name));
+      prop.since ??= this.findSince(versions, present);
+      const defaultChanges = this.findDefaultChanges(versions, present);
+      if (defaultChanges.length > 0) {
+        prop.defaultChanges = defaultChanges;
+      }
+    });
+
+    doc.methods.forEach(method => {
+      method.since ??= this.findSince(versions, versions.map(v => v.doc?.methods.find(m => m.name === method.name)));
+    });
+
+    doc.events.forEach(event => {
+      event.since ??= this.findSince(versions, versions.map(v => v.doc?.events.find(e => e.name === event.name)));
+    });
+
+    doc.styles.forEach(style => {
+      style.since ??= this.findSince(versions, versions.map(v => v.doc?.styles.find(s => s.className === style.className)));
+    });
+
+    doc.children?.forEach(child => this.annotateComponent(child, versions.map(v => ({
+      version: v.version,
+      doc: v.doc?.children?.find(c => c.componentName === child.componentName),
+    }))));
+  }
+
+  /**
+   * Start of the unbroken run of versions (ending at the latest) that have the item;
+   * undefined if the item was already in the oldest version
+   */
+  private static findSince(versions: Array<{ version: string }>, present: unknown[]): string | undefined {
+    let first = present.length - 1;
+    while (first > 0 && present[first - 1]) {
+      first--;
+    }
+    return first > 0 ? versions[first].version : undefined;
+  }
+
+  /**
+   * Versions in which a prop's default differs from the previous version (while the prop existed)
+   */
+  private static findDefaultChanges(
+    versions: Array<{ version: string }>,
+    present: Array<PropInfo | undefined>
+  ): DefaultChange[] {
+    const changes: DefaultChange[] = [];
+
+    for (let i = 1; i < present.length; i++) {
+      const before = present[i - 1];
+      const after = present[i];
+      if (before && after && before.defaultValue !== after.defaultValue) {
+        changes.push({ version: versions[i].version, before: before.defaultValue, after: after.defaultValue });
+      }
+    }
+
+    return changes;
+  }
+}